@@ -19,6 +19,8 @@ declare class Live2DModelWebGL {
 
     getModelContext(): Live2DObfuscated.ModelContext;
 
+    getModelImpl(): ModelImpl;
+
     /**
      * @return The width of model's Live2D drawing canvas but NOT the html canvas element.
      */
@@ -53,6 +55,8 @@ declare class Live2DModelWebGL {
 
     getTransformedPoints(index: number): Float32Array;
 
+    getIndexArray(index: number): Uint16Array;
+
     loadParam(): void;
 
     saveParam(): void;
@@ -116,8 +120,40 @@ declare class PhysicsHair {
     update(model: Live2DModelWebGL, time: number): unknown;
 }
 
+declare class ModelImpl {
+    getParamDefSet(): ParamDefSet;
+
+    getPartsDataList(): PartsData[];
+}
+
+declare class PartsData {
+    getPartsDataID(): PartsDataID;
+
+    getDrawData(): Live2DObfuscated.IDrawData[] | null;
+}
+
+declare class ParamDefSet {
+    getParamDefFloatList(): ParamDefFloat[];
+}
+
+declare class ParamDefFloat {
+    getParamID(): ParamID;
+
+    getMinValue(): number;
+
+    getMaxValue(): number;
+
+    getDefaultValue(): number;
+}
+
+declare class ParamID {
+    id: string;
+}
+
 declare class PartsDataID {
     static getID(id: string): string;
+
+    id: string;
 }
 
 declare class DrawDataID {
@@ -153,18 +189,40 @@ declare namespace Live2DObfuscated {
         _$aS?: unknown; // DrawData[]
 
         getDrawData(index: number): DrawData | null;
+
+        getDrawContext(index: number): DrawContext | null;
     }
 
     class IDrawData {
         getDrawDataID(): DrawDataID;
+
+        /**
+         * @return IDs of the draw data that clip this draw data.
+         */
+        getClipIDList(): string[] | null;
+
+        getOpacity(modelContext: ModelContext, drawContext: DrawContext): number;
+
+        getDrawOrder(modelContext: ModelContext, drawContext: DrawContext): number;
     }
 
     class DrawData extends IDrawData {
         getNumPoints?(): unknown;
 
+        getTextureNo(): number;
+
+        getUvMap(): Float32Array;
+
         draw(aN: unknown, aK: unknown, aI: Unknown_aB): void;
     }
 
+    class DrawContext {
+        /**
+         * @return False if the draw data is not available in current parameters, and thus will not be drawn.
+         */
+        isAvailable(): boolean;
+    }
+
     class Unknown_aB {
         baseOpacity: number;
     }
@@ -0,0 +1,229 @@
+import { InternalModel } from '@/cubism-common';
+import { Point } from '@pixi/math';
+import type { Live2DModel } from './Live2DModel';
+import { clamp } from './utils';
+
+/**
+ * Describes how a parameter is driven by dragging a hit area.
+ */
+export interface DragParameterMapping {
+    /**
+     * ID of the parameter.
+     */
+    id: string;
+
+    /**
+     * The component of the drag vector that drives the parameter.
+     */
+    axis: 'x' | 'y';
+
+    /**
+     * Change of the parameter's value per pixel dragged in the model's canvas, which is not affected by
+     * the model's scale. Use a negative value to reverse the direction.
+     */
+    scale: number;
+}
+
+/**
+ * The parameter mappings keyed by the names of the hit areas that can be dragged.
+ *
+ * ```js
+ * model.dragController.mappings = {
+ *     Head: [
+ *         { id: 'ParamAngleX', axis: 'x', scale: 0.2 },
+ *         { id: 'ParamAngleY', axis: 'y', scale: -0.2 },
+ *     ],
+ * };
+ * ```
+ */
+export type DragMappings = Record<string, DragParameterMapping[]>;
+
+interface DragOffset {
+    value: number;
+    velocity: number;
+
+    /**
+     * Max magnitude of the value, which is the size of the parameter's range.
+     */
+    limit: number;
+}
+
+const tempPoint = new Point();
+
+/**
+ * Lets the user grab a hit area and pull it, where the drag vector is mapped to the values of parameters.
+ * Once released, the parameters spring back to their natural values.
+ *
+ * The drag offsets are added to the parameters on top of the motions and parameter overrides, right before
+ * the physics are updated so the physics will react to the dragging. The pointer events are fed by
+ * {@link InteractionMixin} when `model.parameterDragging` is enabled.
+ */
+export class DragController {
+    /**
+     * The parameter mappings of the hit areas.
+     */
+    mappings: DragMappings = {};
+
+    /**
+     * Stiffness of the spring that pulls the parameters back after releasing, in 1/s².
+     */
+    stiffness = 150;
+
+    /**
+     * Damping of the spring, in 1/s. The spring bounces before settling if it's less than `2 * sqrt(stiffness)`.
+     */
+    damping = 12;
+
+    /**
+     * Name of the hit area being dragged.
+     */
+    draggingHitArea?: string;
+
+    /**
+     * The offsets added to the parameters, keyed by the parameters' IDs.
+     */
+    protected offsets = new Map<string, DragOffset>();
+
+    /**
+     * The internal model whose update is currently listened to.
+     */
+    protected internalModel?: InternalModel;
+
+    protected startX = 0;
+    protected startY = 0;
+
+    constructor(readonly model: Live2DModel) {}
+
+    /**
+     * Starts dragging if the pointer is pressed on a hit area that has mappings.
+     * @param x - Position in world space.
+     * @param y - Position in world space.
+     */
+    onPointerDown(x: number, y: number): void {
+        const hitAreaName = this.model.hitTest(x, y).find(name => this.mappings[name]?.length);
+
+        if (!hitAreaName) {
+            return;
+        }
+
+        this.model.toModelPosition(tempPoint.set(x, y), tempPoint);
+
+        this.draggingHitArea = hitAreaName;
+        this.startX = tempPoint.x;
+        this.startY = tempPoint.y;
+
+        const parameters = this.model.internalModel.getParameters();
+
+        for (const mapping of this.mappings[hitAreaName]!) {
+            const parameter = parameters.find(parameter => parameter.id === mapping.id);
+
+            if (parameter && !this.offsets.has(mapping.id)) {
+                this.offsets.set(mapping.id, { value: 0, velocity: 0, limit: parameter.max - parameter.min });
+            }
+        }
+
+        this.attach();
+    }
+
+    /**
+     * Updates the offsets by the drag vector. Does nothing if not dragging.
+     * @param x - Position in world space.
+     * @param y - Position in world space.
+     */
+    onPointerMove(x: number, y: number): void {
+        if (!this.draggingHitArea) {
+            return;
+        }
+
+        this.model.toModelPosition(tempPoint.set(x, y), tempPoint);
+
+        const mappings = this.mappings[this.draggingHitArea] ?? [];
+        const dx = tempPoint.x - this.startX;
+        const dy = tempPoint.y - this.startY;
+
+        // multiple mappings can drive the same parameter, so reset them before summing up
+        for (const mapping of mappings) {
+            const offset = this.offsets.get(mapping.id);
+
+            if (offset) {
+                offset.value = 0;
+                offset.velocity = 0;
+            }
+        }
+
+        for (const mapping of mappings) {
+            const offset = this.offsets.get(mapping.id);
+
+            if (offset) {
+                offset.value = clamp(
+                    offset.value + (mapping.axis === 'x' ? dx : dy) * mapping.scale,
+                    -offset.limit,
+                    offset.limit,
+                );
+            }
+        }
+    }
+
+    /**
+     * Stops dragging and lets the parameters spring back.
+     */
+    release(): void {
+        this.draggingHitArea = undefined;
+    }
+
+    /**
+     * Stops dragging and removes all the offsets immediately.
+     */
+    reset(): void {
+        this.draggingHitArea = undefined;
+        this.offsets.clear();
+        this.detach();
+    }
+
+    protected attach(): void {
+        const internalModel = this.model.internalModel;
+
+        if (this.internalModel !== internalModel) {
+            this.detach();
+
+            this.internalModel = internalModel;
+
+            internalModel.on('beforePhysicsUpdate', this.update, this);
+        }
+    }
+
+    protected detach(): void {
+        this.internalModel?.off('beforePhysicsUpdate', this.update, this);
+        this.internalModel = undefined;
+    }
+
+    /**
+     * Steps the springs and applies the offsets, called before the physics are updated.
+     * @param dt - Elapsed time in milliseconds from last frame.
+     */
+    protected update(dt: DOMHighResTimeStamp): void {
+        // limit the delta time so the springs won't explode after the page has been inactive,
+        // and convert it to seconds
+        dt = Math.min(dt, 100) / 1000;
+
+        const held = this.draggingHitArea ? this.mappings[this.draggingHitArea] ?? [] : [];
+
+        for (const [id, offset] of this.offsets) {
+            if (!held.some(mapping => mapping.id === id)) {
+                offset.velocity += (-this.stiffness * offset.value - this.damping * offset.velocity) * dt;
+                offset.value += offset.velocity * dt;
+
+                if (Math.abs(offset.value) < 1e-3 * offset.limit && Math.abs(offset.velocity) < 1e-2 * offset.limit) {
+                    this.offsets.delete(id);
+                    continue;
+                }
+            }
+
+            this.internalModel!.addParameterValue(id, offset.value);
+        }
+
+        if (!this.draggingHitArea && !this.offsets.size) {
+            this.detach();
+        }
+    }
+}
@@ -0,0 +1,353 @@
+import type { Live2DModel } from './Live2DModel';
+
+export interface GestureOptions {
+    /**
+     * Max distance in pixels that the pointer can move during a tap or a long press.
+     * @default 10
+     */
+    moveTolerance?: number;
+
+    /**
+     * Max interval in milliseconds between the two taps of a double tap.
+     * @default 300
+     */
+    doubleTapInterval?: number;
+
+    /**
+     * Max distance in pixels between the two taps of a double tap.
+     * @default 20
+     */
+    doubleTapDistance?: number;
+
+    /**
+     * Duration in milliseconds that the pointer must be held down to trigger a long press.
+     * @default 500
+     */
+    longPressDuration?: number;
+
+    /**
+     * Min distance in pixels that the pointer must move to trigger a swipe.
+     * @default 50
+     */
+    swipeDistance?: number;
+
+    /**
+     * Max duration in milliseconds of a swipe, from the pointer being pressed to being released.
+     * @default 500
+     */
+    swipeDuration?: number;
+
+    /**
+     * Min distance in pixels of each stroke of petting.
+     * @default 20
+     */
+    petStrokeDistance?: number;
+
+    /**
+     * Max interval in milliseconds between two strokes of petting.
+     * @default 800
+     */
+    petStrokeInterval?: number;
+
+    /**
+     * Number of strokes to be made before a petting is recognized.
+     * @default 3
+     */
+    petStrokes?: number;
+}
+
+export type SwipeDirection = 'left' | 'right' | 'up' | 'down';
+
+export interface DoubleTapGesture {
+    /** Position in world space. */
+    x: number;
+    y: number;
+}
+
+export interface LongPressGesture {
+    /** Position in world space. */
+    x: number;
+    y: number;
+
+    /** Time in milliseconds that the pointer has been held down. */
+    duration: number;
+}
+
+export interface SwipeGesture {
+    direction: SwipeDirection;
+
+    /** Distance moved in world space. */
+    dx: number;
+    dy: number;
+
+    /** Time in milliseconds from the pointer being pressed to being released. */
+    duration: number;
+}
+
+export interface PetGesture {
+    /** Position in world space. */
+    x: number;
+    y: number;
+
+    /** Number of the strokes that have been made continuously. */
+    strokes: number;
+}
+
+interface StrokeState {
+    direction: number;
+    distance: number;
+}
+
+interface PointerState {
+    startX: number;
+    startY: number;
+    startTime: DOMHighResTimeStamp;
+    lastX: number;
+    lastY: number;
+
+    /** The hit areas under the pointer when it was pressed. */
+    hitAreas: string[];
+
+    moved: boolean;
+    longPressed: boolean;
+
+    /** The strokes along x axis and y axis. */
+    strokes: [StrokeState, StrokeState];
+    strokeCount: number;
+    lastStrokeTime: DOMHighResTimeStamp;
+}
+
+/**
+ * Recognizes the gestures made on the hit areas of a Live2DModel, and emits them as the model's events.
+ * The pointer events are fed by {@link InteractionMixin} when `model.gestures` is enabled.
+ *
+ * Gestures are recognized only when they are made on any hit area, and they are not exclusive to the
+ * `hit` event, which means a double tap will also emit two `hit` events.
+ * @emits {@link Live2DModelEvents.doubleTap}
+ * @emits {@link Live2DModelEvents.longPress}
+ * @emits {@link Live2DModelEvents.swipe}
+ * @emits {@link Live2DModelEvents.pet}
+ */
+export class GestureRecognizer {
+    options: Required<GestureOptions> = {
+        moveTolerance: 10,
+        doubleTapInterval: 300,
+        doubleTapDistance: 20,
+        longPressDuration: 500,
+        swipeDistance: 50,
+        swipeDuration: 500,
+        petStrokeDistance: 20,
+        petStrokeInterval: 800,
+        petStrokes: 3,
+    };
+
+    /**
+     * State of the pointer that is currently pressed.
+     */
+    protected pointer?: PointerState;
+
+    /**
+     * The last tap that may become the first tap of a double tap.
+     */
+    protected lastTap?: { x: number; y: number; time: DOMHighResTimeStamp };
+
+    protected longPressTimer?: ReturnType<typeof setTimeout>;
+
+    constructor(readonly model: Live2DModel, options?: GestureOptions) {
+        Object.assign(this.options, options);
+    }
+
+    /**
+     * Handles a pointer being pressed.
+     * @param x - Position in world space.
+     * @param y - Position in world space.
+     */
+    onPointerDown(x: number, y: number): void {
+        this.cancel();
+
+        const now = performance.now();
+
+        const pointer: PointerState = {
+            startX: x,
+            startY: y,
+            startTime: now,
+            lastX: x,
+            lastY: y,
+            hitAreas: this.model.hitTest(x, y),
+            moved: false,
+            longPressed: false,
+            strokes: [{ direction: 0, distance: 0 }, { direction: 0, distance: 0 }],
+            strokeCount: 0,
+            lastStrokeTime: now,
+        };
+
+        this.pointer = pointer;
+
+        if (pointer.hitAreas.length) {
+            this.longPressTimer = setTimeout(() => {
+                pointer.longPressed = true;
+
+                this.model.emit('longPress', pointer.hitAreas, {
+                    x: pointer.startX,
+                    y: pointer.startY,
+                    duration: this.options.longPressDuration,
+                });
+            }, this.options.longPressDuration);
+        }
+    }
+
+    /**
+     * Handles a pointer being moved. Does nothing if the pointer is not pressed.
+     * @param x - Position in world space.
+     * @param y - Position in world space.
+     */
+    onPointerMove(x: number, y: number): void {
+        const pointer = this.pointer;
+
+        if (!pointer) {
+            return;
+        }
+
+        if (!pointer.moved && Math.hypot(x - pointer.startX, y - pointer.startY) > this.options.moveTolerance) {
+            pointer.moved = true;
+            clearTimeout(this.longPressTimer);
+        }
+
+        const deltas = [x - pointer.lastX, y - pointer.lastY];
+
+        pointer.lastX = x;
+        pointer.lastY = y;
+
+        let stroked = false;
+        const turned = [false, false];
+
+        for (let axis = 0; axis < 2; axis++) {
+            const stroke = pointer.strokes[axis]!;
+            const delta = deltas[axis]!;
+            const direction = Math.sign(delta);
+
+            if (direction === 0) {
+                continue;
+            }
+
+            if (direction === stroke.direction) {
+                stroke.distance += Math.abs(delta);
+            } else {
+                // the pointer turns back, which finishes a stroke if it's long enough
+                if (stroke.distance >= this.options.petStrokeDistance) {
+                    stroked = true;
+                }
+
+                turned[axis] = true;
+                stroke.direction = direction;
+                stroke.distance = Math.abs(delta);
+            }
+        }
+
+        if (stroked) {
+            // a diagonal stroke turns back on both axes, maybe not in the same move, so the axis that hasn't
+            // turned yet starts over to not finish the same stroke again
+            pointer.strokes.forEach((stroke, axis) => {
+                if (!turned[axis]) {
+                    stroke.distance = 0;
+                }
+            });
+
+            this.onStroke(x, y);
+        }
+    }
+
+    /**
+     * Handles a pointer being released. Does nothing if the pointer is not pressed.
+     * @param x - Position in world space.
+     * @param y - Position in world space.
+     */
+    onPointerUp(x: number, y: number): void {
+        const pointer = this.pointer;
+
+        if (!pointer) {
+            return;
+        }
+
+        this.cancel();
+
+        const now = performance.now();
+
+        if (!pointer.moved) {
+            if (!pointer.longPressed) {
+                this.onTap(x, y, now);
+            }
+
+            return;
+        }
+
+        // a petting is not a swipe
+        if (pointer.strokeCount >= this.options.petStrokes || !pointer.hitAreas.length) {
+            return;
+        }
+
+        const dx = x - pointer.startX;
+        const dy = y - pointer.startY;
+        const duration = now - pointer.startTime;
+
+        if (duration <= this.options.swipeDuration && Math.hypot(dx, dy) >= this.options.swipeDistance) {
+            const direction: SwipeDirection = Math.abs(dx) >= Math.abs(dy)
+                ? (dx > 0 ? 'right' : 'left')
+                : (dy > 0 ? 'down' : 'up');
+
+            this.model.emit('swipe', pointer.hitAreas, { direction, dx, dy, duration });
+        }
+    }
+
+    /**
+     * Cancels the gesture being made by current pointer.
+     */
+    cancel(): void {
+        clearTimeout(this.longPressTimer);
+
+        this.longPressTimer = undefined;
+        this.pointer = undefined;
+    }
+
+    protected onTap(x: number, y: number, now: DOMHighResTimeStamp): void {
+        const lastTap = this.lastTap;
+
+        if (
+            lastTap
+            && now - lastTap.time <= this.options.doubleTapInterval
+            && Math.hypot(x - lastTap.x, y - lastTap.y) <= this.options.doubleTapDistance
+        ) {
+            this.lastTap = undefined;
+
+            const hitAreas = this.model.hitTest(x, y);
+
+            if (hitAreas.length) {
+                this.model.emit('doubleTap', hitAreas, { x, y });
+            }
+        } else {
+            this.lastTap = { x, y, time: now };
+        }
+    }
+
+    protected onStroke(x: number, y: number): void {
+        const pointer = this.pointer!;
+        const now = performance.now();
+        const hitAreas = this.model.hitTest(x, y);
+
+        if (!hitAreas.length || now - pointer.lastStrokeTime > this.options.petStrokeInterval) {
+            pointer.strokeCount = 0;
+        }
+
+        pointer.lastStrokeTime = now;
+
+        if (!hitAreas.length) {
+            return;
+        }
+
+        pointer.strokeCount++;
+
+        if (pointer.strokeCount >= this.options.petStrokes) {
+            this.model.emit('pet', hitAreas, { x, y, strokes: pointer.strokeCount });
+        }
+    }
+}
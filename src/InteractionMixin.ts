@@ -1,5 +1,22 @@
 import { Live2DModel } from './Live2DModel';
 import { FederatedMouseEvent } from '@pixi/events';
+import { Point } from '@pixi/math';
+
+/**
+ * Indicates where the pointer is tracked when the model follows the mouse.
+ */
+export enum FollowMouseMode {
+    /** Track the pointer only when it's over the model. */
+    MODEL = 'MODEL',
+
+    /** Track the pointer anywhere on the canvas. */
+    CANVAS = 'CANVAS',
+
+    /** Track the pointer anywhere on the document, even outside the canvas. */
+    DOCUMENT = 'DOCUMENT',
+}
+
+const tempPoint = new Point();
 
 /**
  * The interaction control split from Live2DModel class for code clarity. This mixin should *only*
@@ -7,7 +24,12 @@ import { FederatedMouseEvent } from '@pixi/events';
  */
 export class InteractionMixin {
     private _followMouse = false;
+    private _followMouseMode = FollowMouseMode.MODEL;
+    private _documentPointerMove?: (event: PointerEvent) => void;
     private _touchEvents = false;
+    private _hoverEvents = false;
+    private _gestures = false;
+    private _parameterDragging = false;
 
     get followMouse(){
         return this._followMouse;
@@ -19,15 +41,57 @@ export class InteractionMixin {
     set followMouse(follow: boolean){
         if(this._followMouse === follow) return;
 
-        if(follow){
-            (this as any as Live2DModel).on("pointermove", onPointerMove as EventListener);
-        } else {
-            (this as any as Live2DModel).off("pointermove", onPointerMove as EventListener);
+        const model = this as any as Live2DModel;
+
+        switch (this.followMouseMode) {
+            case FollowMouseMode.CANVAS:
+                if(follow){
+                    model.on("globalpointermove", onPointerMove as EventListener);
+                } else {
+                    model.off("globalpointermove", onPointerMove as EventListener);
+                }
+                break;
+
+            case FollowMouseMode.DOCUMENT:
+                this._documentPointerMove ??= onDocumentPointerMove.bind(model);
+
+                if(follow){
+                    document.addEventListener("pointermove", this._documentPointerMove);
+                } else {
+                    document.removeEventListener("pointermove", this._documentPointerMove);
+                }
+                break;
+
+            default:
+                if(follow){
+                    model.on("pointermove", onPointerMove as EventListener);
+                } else {
+                    model.off("pointermove", onPointerMove as EventListener);
+                }
         }
 
         this._followMouse = follow;
     }
 
+    get followMouseMode(){
+        // the field's initializer is not applied by the mixin
+        return this._followMouseMode ?? FollowMouseMode.MODEL;
+    }
+
+    /**
+     * Where the pointer is tracked when the model follows the mouse.
+     */
+    set followMouseMode(mode: FollowMouseMode){
+        if(this.followMouseMode === mode) return;
+
+        const follow = this.followMouse;
+
+        // re-register the listeners for the new mode
+        this.followMouse = false;
+        this._followMouseMode = mode;
+        this.followMouse = follow;
+    }
+
     get touchEvents(){
         return this._touchEvents;
     }
@@ -46,6 +110,96 @@ export class InteractionMixin {
 
         this._touchEvents = touchable;
     }
+
+    get hoverEvents(){
+        return this._hoverEvents;
+    }
+
+    /**
+     * The model will emit hover events of the hit areas
+     */
+    set hoverEvents(hoverable: boolean){
+        if(this._hoverEvents === hoverable) return;
+
+        const model = this as any as Live2DModel;
+
+        if(hoverable){
+            model.on("pointermove", onHover as EventListener);
+            model.on("pointerleave", onHoverLeave);
+        } else {
+            model.off("pointermove", onHover as EventListener);
+            model.off("pointerleave", onHoverLeave);
+
+            // leave the hovered hit areas
+            model.hover();
+        }
+
+        this._hoverEvents = hoverable;
+    }
+
+    get gestures(){
+        return this._gestures;
+    }
+
+    /**
+     * The model will recognize gestures on the hit areas
+     * @see {@link GestureRecognizer}
+     */
+    set gestures(enabled: boolean){
+        if(this._gestures === enabled) return;
+
+        const model = this as any as Live2DModel;
+
+        if(enabled){
+            model.on("pointerdown", onGesturePointerDown as EventListener);
+            model.on("globalpointermove", onGesturePointerMove as EventListener);
+            model.on("pointerup", onGesturePointerUp as EventListener);
+            model.on("pointerupoutside", onGesturePointerUp as EventListener);
+            model.on("pointercancel", onGesturePointerCancel);
+        } else {
+            model.off("pointerdown", onGesturePointerDown as EventListener);
+            model.off("globalpointermove", onGesturePointerMove as EventListener);
+            model.off("pointerup", onGesturePointerUp as EventListener);
+            model.off("pointerupoutside", onGesturePointerUp as EventListener);
+            model.off("pointercancel", onGesturePointerCancel);
+
+            model.gestureRecognizer.cancel();
+        }
+
+        this._gestures = enabled;
+    }
+
+    get parameterDragging(){
+        return this._parameterDragging;
+    }
+
+    /**
+     * The model's parameters will be driven by dragging the hit areas
+     * @see {@link DragController}
+     */
+    set parameterDragging(enabled: boolean){
+        if(this._parameterDragging === enabled) return;
+
+        const model = this as any as Live2DModel;
+
+        if(enabled){
+            model.on("pointerdown", onDragStart as EventListener);
+            model.on("globalpointermove", onDragMove as EventListener);
+            model.on("pointerup", onDragEnd);
+            model.on("pointerupoutside", onDragEnd);
+            model.on("pointercancel", onDragEnd);
+        } else {
+            model.off("pointerdown", onDragStart as EventListener);
+            model.off("globalpointermove", onDragMove as EventListener);
+            model.off("pointerup", onDragEnd);
+            model.off("pointerupoutside", onDragEnd);
+            model.off("pointercancel", onDragEnd);
+
+            model.dragController.reset();
+        }
+
+        this._parameterDragging = enabled;
+    }
 }
 
 function onTap(this: Live2DModel, event: FederatedMouseEvent) {
@@ -55,3 +209,47 @@ function onTap(this: Live2DModel, event: FederatedMouseEvent) {
 function onPointerMove(this: Live2DModel, event: FederatedMouseEvent) {
     this.focus(event.globalX, event.globalY);
 }
+
+function onDocumentPointerMove(this: Live2DModel, event: PointerEvent) {
+    // the renderer is required to map the position into the canvas
+    if(!this.lastRenderer) return;
+
+    this.lastRenderer.events.mapPositionToPoint(tempPoint, event.clientX, event.clientY);
+    this.focus(tempPoint.x, tempPoint.y);
+}
+
+function onHover(this: Live2DModel, event: FederatedMouseEvent) {
+    this.hover(event.globalX, event.globalY);
+}
+
+function onHoverLeave(this: Live2DModel) {
+    this.hover();
+}
+
+function onGesturePointerDown(this: Live2DModel, event: FederatedMouseEvent) {
+    this.gestureRecognizer.onPointerDown(event.globalX, event.globalY);
+}
+
+function onGesturePointerMove(this: Live2DModel, event: FederatedMouseEvent) {
+    this.gestureRecognizer.onPointerMove(event.globalX, event.globalY);
+}
+
+function onGesturePointerUp(this: Live2DModel, event: FederatedMouseEvent) {
+    this.gestureRecognizer.onPointerUp(event.globalX, event.globalY);
+}
+
+function onGesturePointerCancel(this: Live2DModel) {
+    this.gestureRecognizer.cancel();
+}
+
+function onDragStart(this: Live2DModel, event: FederatedMouseEvent) {
+    this.dragController.onPointerDown(event.globalX, event.globalY);
+}
+
+function onDragMove(this: Live2DModel, event: FederatedMouseEvent) {
+    this.dragController.onPointerMove(event.globalX, event.globalY);
+}
+
+function onDragEnd(this: Live2DModel) {
+    this.dragController.release();
+}
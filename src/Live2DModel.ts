@@ -1,23 +1,25 @@
-import { InternalModel, MotionPriority } from '@/cubism-common';
-import { MotionManagerOptions, SpeakOptions } from '@/cubism-common/MotionManager';
-import { Renderer, Texture, extensions } from '@pixi/core';
+import { FocusMode, InternalModel, InternalModelOptions, MotionPriority } from '@/cubism-common';
+import { MotionPreloadStrategy, SpeakOptions } from '@/cubism-common/MotionManager';
+import { BaseImageResource, BaseTexture, Renderer, Texture, extensions } from '@pixi/core';
 import { Container, IDestroyOptions } from '@pixi/display';
 import { Matrix, ObservablePoint, Point, Rectangle } from '@pixi/math';
 import type { Ticker } from '@pixi/ticker';
-import { InteractionMixin } from './InteractionMixin';
+import { DragController, DragMappings } from './DragController';
+import { GestureOptions, GestureRecognizer } from './GestureRecognizer';
+import { FollowMouseMode, InteractionMixin } from './InteractionMixin';
 import { Live2DTransform } from './Live2DTransform';
-import { applyMixins, logger } from './utils';
-import { cubism4Load, cubism2Load, ICubismModelData, ICubism4ModelData, ICubism2ModelData } from './loader';
+import { applyMixins, clamp, logger } from './utils';
+import { cubism4Load, cubism2Load, zipLoad, FileLoader, ICubism4ModelData, ICubismLoadOptions, ICubismModelData, loadSharedModelData, throwIfAborted } from './loader';
+import { releaseModelData, retainModelData, unload } from './loader/unload';
 import { PlayOptions, Sound } from '@pixi/sound';
-import { config } from './config';
-import { Live2DExpression } from './cubism2';
 import { RuntimeManager } from './RuntimeManager';
 import { EventMode } from '@pixi/events';
 
 extensions.add(cubism4Load);
 extensions.add(cubism2Load);
+extensions.add(zipLoad);
 
-export interface Live2DModelOptions extends MotionManagerOptions {
+export interface Live2DModelOptions extends ICubismLoadOptions, InternalModelOptions {
     /**
      * Should the internal model be automatically updated by `PIXI.Ticker.shared`.
      * @default ture
@@ -31,6 +33,41 @@ export interface Live2DModelOptions extends MotionManagerOptions {
      */
     followMouse?: boolean;
 
+    /**
+     * Where the pointer is tracked when the model follows the mouse
+     * @see {@link InteractionMixin}
+     * @default {@link FollowMouseMode.MODEL}
+     */
+    followMouseMode?: FollowMouseMode;
+
+    /**
+     * Time in milliseconds without focusing before the model looks back to the center, 0 to disable
+     * @see {@link Live2DModel.focusIdleTimeout}
+     * @default 0
+     */
+    focusIdleTimeout?: number;
+
+    /**
+     * How a position is converted into the focus
+     * @see {@link Live2DModel.focusMode}
+     * @default {@link FocusMode.DIRECTION}
+     */
+    focusMode?: FocusMode;
+
+    /**
+     * Distance from the model's center where the focus reaches its fullest extent in proportional mode
+     * @see {@link Live2DModel.focusRadius}
+     * @default 1
+     */
+    focusRadius?: number;
+
+    /**
+     * Exponent of the focus strength in proportional mode
+     * @see {@link Live2DModel.focusFalloff}
+     * @default 1
+     */
+    focusFalloff?: number;
+
     /**
      * Should the model emit touch events
      * @see {@link InteractionMixin}
@@ -38,6 +75,44 @@ export interface Live2DModelOptions extends MotionManagerOptions {
      */
     touchEvents?: boolean;
 
+    /**
+     * Should the model emit hover events of the hit areas
+     * @see {@link InteractionMixin}
+     * @default false
+     */
+    hoverEvents?: boolean;
+
+    /**
+     * The cursor style to be used while hovering any hit area, requires `hoverEvents` to be enabled
+     * @see {@link Live2DModel.hoverCursor}
+     */
+    hoverCursor?: string;
+
+    /**
+     * Should the model recognize gestures on the hit areas
+     * @see {@link GestureRecognizer}
+     * @default false
+     */
+    gestures?: boolean;
+
+    /**
+     * Options for recognizing gestures
+     */
+    gestureOptions?: GestureOptions;
+
+    /**
+     * Should the model's parameters be driven by dragging the hit areas
+     * @see {@link DragController}
+     * @default false
+     */
+    parameterDragging?: boolean;
+
+    /**
+     * The parameter mappings of the hit areas that can be dragged
+     * @see {@link DragController.mappings}
+     */
+    dragMappings?: DragMappings;
+
     /**
      * Interaction event mode for the model
      * @default "static"
@@ -48,6 +123,12 @@ export interface Live2DModelOptions extends MotionManagerOptions {
 const tempPoint = new Point();
 const tempMatrix = new Matrix();
 
+// a 1x1 canvas to read the pixels of the textures for hit testing, created on demand
+let pixelContext: CanvasRenderingContext2D | undefined;
+
+// the textures whose pixels cannot be read, so they'll be ignored in hit testing without retrying
+const unreadableTextures = new WeakSet<BaseTexture>();
+
 // a reference to Ticker class, defaults to window.PIXI.Ticker
 type TickerClass = typeof Ticker;
 let tickerRef: TickerClass | undefined;
@@ -56,6 +137,14 @@ export interface Live2DModel<IM extends InternalModel = InternalModel> extends I
 
 export type Live2DConstructor = { new(options?: Live2DModelOptions): Live2DModel }
 
+/**
+ * Sources that a Live2DModel can be created from.
+ * - URL of the settings file or the zip file.
+ * - The Files picked by the user, see {@link FileLoader}.
+ * - The model data loaded by `Assets.load()`.
+ */
+export type Live2DModelSource = string | File[] | FileList | ICubismModelData;
+
 /**
  * A wrapper that allows the Live2D model to be used as a DisplayObject in PixiJS.
  *
@@ -73,6 +162,58 @@ export class Live2DModel extends Container {
         tickerRef = tickerClass;
     }
 
+    /**
+     * Creates a Live2DModel from given source, and waits for it to be ready.
+     * @param source - Can be the URL of a settings file or a zip file, the Files picked by the user,
+     * or the model data that has been loaded by `Assets.load()`.
+     * @param options - Options for the loading and the model.
+     * @return Promise that resolves with the Live2DModel when it's ready. If `options.signal` is aborted,
+     * rejects with the signal's reason.
+     */
+    static async from(source: Live2DModelSource, options?: Live2DModelOptions): Promise<Live2DModel> {
+        const signal = options?.signal;
+
+        let modelData: ICubismModelData;
+
+        if (typeof source === 'string') {
+            // the loading is shared with the other callers of the same URL, but each one can abort on its own
+            modelData = await loadSharedModelData(source, options);
+        } else if (Array.isArray(source) || (typeof FileList !== 'undefined' && source instanceof FileList)) {
+            modelData = await FileLoader.loadModelData(source, undefined, undefined, options);
+
+            if (signal?.aborted) {
+                unload(modelData);
+                throwIfAborted(signal);
+            }
+
+            // the model data is owned by the model, so let it be freed once the model is destroyed
+            const model = new this(modelData, options);
+
+            unload(modelData);
+
+            return this.waitForReady(model);
+        } else {
+            modelData = source as ICubismModelData;
+        }
+
+        throwIfAborted(signal);
+
+        return this.waitForReady(new this(modelData, options));
+    }
+
+    /**
+     * Waits for a model created by {@link from} to be ready. If it fails, the model will be destroyed
+     * to release its model data, since the model is not accessible to the caller.
+     */
+    protected static async waitForReady(model: Live2DModel): Promise<Live2DModel> {
+        try {
+            return await model.ready;
+        } catch (e) {
+            model.destroy();
+            throw e;
+        }
+    }
+
     /**
      * Tag for logging.
      */
@@ -83,11 +224,27 @@ export class Live2DModel extends Container {
      */
     internalModel!: InternalModel;
 
+    /**
+     * Resolves with the model itself when it's ready, that is, the internal model and the textures have been
+     * created and the "ready" event has been emitted. Rejects if an error occurs during the creation,
+     * in which case the "error" event will also be emitted.
+     *
+     * If the model is destroyed before it's ready, resolves without creating anything, and the "ready"
+     * event will not be emitted.
+     */
+    readonly ready: Promise<this>;
+
     /**
      * Pixi textures.
      */
     textures: Texture[] = [];
 
+    /**
+     * The model data that the model has been created from. It's retained by the model so the shared resources
+     * won't be freed by `Assets.unload()` until the model is destroyed.
+     */
+    modelData?: ICubismModelData;
+
     /** @override */
     transform = new Live2DTransform();
 
@@ -117,6 +274,68 @@ export class Live2DModel extends Container {
      */
     wasUpdated = false;
 
+    /**
+     * Time in milliseconds without focusing, for example when the mouse stops moving, before the model
+     * looks back to the center. 0 to disable.
+     */
+    focusIdleTimeout = 0;
+
+    /**
+     * How a position is converted into the focus by {@link focus}.
+     */
+    focusMode = FocusMode.DIRECTION;
+
+    /**
+     * In {@link FocusMode.PROPORTIONAL}, the distance from the model's center where the focus reaches its
+     * fullest extent. The distance is measured in the model's canvas, where 1 equals the distance from
+     * the center to the canvas's edge, separately in each axis.
+     */
+    focusRadius = 1;
+
+    /**
+     * In {@link FocusMode.PROPORTIONAL}, the exponent applied to the focus strength, which is the distance
+     * divided by {@link focusRadius}. 1 makes the strength grow linearly, a smaller value makes the model
+     * respond more to positions near the center, and a larger value does the opposite.
+     */
+    focusFalloff = 1;
+
+    /**
+     * The {@link elapsedTime} when {@link focus} was last called, undefined if the model has looked back
+     * to the center.
+     */
+    protected lastFocusTime?: DOMHighResTimeStamp;
+
+    /**
+     * The renderer that has last rendered the model, used to map the positions in the document into the canvas.
+     */
+    lastRenderer?: Renderer;
+
+    /**
+     * The names of the hit areas that the pointer is currently over, updated by {@link hover}.
+     */
+    hoveredHitAreas: string[] = [];
+
+    /**
+     * The cursor style to be used while hovering any hit area. The model's own cursor will be restored
+     * after the pointer leaves the hit areas.
+     */
+    hoverCursor?: string;
+
+    /**
+     * The model's cursor before it's replaced by {@link hoverCursor}.
+     */
+    protected cursorBeforeHover?: string | null;
+
+    /**
+     * Recognizes the gestures on the hit areas when {@link gestures} is enabled.
+     */
+    gestureRecognizer: GestureRecognizer = new GestureRecognizer(this);
+
+    /**
+     * Drives the parameters by dragging the hit areas when {@link parameterDragging} is enabled.
+     */
+    dragController: DragController = new DragController(this);
+
     protected _autoUpdate = false;
 
     /**
@@ -153,28 +372,73 @@ export class Live2DModel extends Container {
             throw new Error("Unable to find Live 2D runtime.");
         }
 
-        runtime.ready().then(() => {
+        // share the resources of the model data with other models, until this model is destroyed
+        this.modelData = modelData;
+        retainModelData(modelData);
+
+        this.ready = runtime.ready().then(() => {
+            // the model has been destroyed before the runtime is ready, there's nothing to create
+            if (this.destroyed) {
+                return this;
+            }
+
             // Settings
             const settings = runtime.createModelSettings(structuredClone(modelData.settings));
 
             // Model
             const coreModel = runtime.createCoreModel(modelData.moc);
-            const internalModel = runtime.createInternalModel(coreModel, settings);
+            // the motions will be preloaded after the ones provided by the model data have been filled in,
+            // otherwise the provided ones would be loaded again
+            const internalModel = runtime.createInternalModel(coreModel, settings, {
+                ...options,
+                motionPreload: MotionPreloadStrategy.NONE,
+            });
             this.internalModel = internalModel;
 
             // Init
             this.tag = `Live2DModel(${this.internalModel.settings.name})`;
 
+            // apply the anchor that may have been set before the internal model is created
+            this.onAnchorChange();
+
+            internalModel.textureAlphaReader = (index, x, y) => this.readTextureAlpha(index, x, y);
+
+            internalModel.motionManager.on('motionEvent', (value: string, group: string, index: number, time: number, customData: unknown) => {
+                this.emit('motionEvent', value, group, index, time, customData);
+            });
+
+            this.emit('settingsLoaded', settings);
+            this.emit('modelLoaded', internalModel);
+
             const _options = Object.assign({
                 autoUpdate: true,
                 followMouse: true,
                 touchEvents: true,
+                hoverEvents: false,
+                gestures: false,
+                parameterDragging: false,
                 eventMode: "static"
             }, options);
 
             this.autoUpdate = _options.autoUpdate;
+            this.followMouseMode = _options.followMouseMode ?? FollowMouseMode.MODEL;
             this.followMouse = _options.followMouse;
+            this.focusIdleTimeout = _options.focusIdleTimeout ?? 0;
+            this.focusMode = _options.focusMode ?? FocusMode.DIRECTION;
+            this.focusRadius = _options.focusRadius ?? 1;
+            this.focusFalloff = _options.focusFalloff ?? 1;
             this.touchEvents = _options.touchEvents;
+            this.hoverEvents = _options.hoverEvents;
+            this.hoverCursor = _options.hoverCursor;
+
+            Object.assign(this.gestureRecognizer.options, _options.gestureOptions);
+            this.gestures = _options.gestures;
+
+            if (_options.dragMappings) {
+                this.dragController.mappings = _options.dragMappings;
+            }
+
+            this.parameterDragging = _options.parameterDragging;
             this.eventMode = _options.eventMode;
 
             // Textures
@@ -182,73 +446,100 @@ export class Live2DModel extends Container {
                 return texture.clone();
             });
 
+            this.emit('textureLoaded', this.textures);
+
             // Poses
-            if(modelData.pose) internalModel.pose = runtime.createPose(coreModel, structuredClone(modelData.pose));
+            if(modelData.pose){
+                internalModel.pose = runtime.createPose(coreModel, structuredClone(modelData.pose));
+                this.emit('poseLoaded', internalModel.pose);
+            }
+
+            // Display info and user data, only available in Cubism 4
+            if((modelData as ICubism4ModelData).displayInfo){
+                internalModel.displayInfo = (modelData as ICubism4ModelData).displayInfo;
+            }
+
+            if((modelData as ICubism4ModelData).userData){
+                internalModel.userData = (modelData as ICubism4ModelData).userData;
+            }
 
             // Physics
-            if(modelData.physics) internalModel.physics = runtime.createPhysics(coreModel, structuredClone(modelData.physics));
-
-            
-            // Motions and Expression
-            if(runtime.version === 2){
-                if(modelData.motions){
-                    const motions = structuredClone((modelData as ICubism2ModelData).motions);
-                    const motionManager = internalModel.motionManager;
-                    for(const motionGroup in motions){
-                        const defaultFade = motionGroup === "idle" ? config.idleMotionFadingDuration : config.motionFadingDuration;
-                        for(let i =0; i < motions[motionGroup].length; i++){
-                            const motion = Live2DMotion.loadMotion(motions[motionGroup][i]);
-                            motion.setFadeIn(motionManager.motionGroups[motionGroup][i]?.fade_in ?? defaultFade);
-                            motion.setFadeOut(motionManager.motionGroups[motionGroup][i]?.fade_out ?? defaultFade);
-                            motionManager.motionGroups[motionGroup][i] = motion;
-
-                            const sound = modelData.sounds?.[motionGroup][i]
-                            if(sound){
-                                motionManager.registerSound(sound, motionGroup, i);
-                            }
+            if(modelData.physics){
+                internalModel.physics = runtime.createPhysics(coreModel, structuredClone(modelData.physics));
+                this.emit('physicsLoaded', internalModel.physics);
+            }
+
+            // Motions
+            if(modelData.motions){
+                const motions = structuredClone(modelData.motions) as Record<string, any[]>;
+                const motionManager = internalModel.motionManager;
+                for(const motionGroup in motions){
+                    for(let i =0; i < motions[motionGroup].length; i++){
+                        // the motion has failed to load, mark it so it won't be loaded again
+                        if(motions[motionGroup][i] === null){
+                            motionManager.motionGroups[motionGroup][i] = null;
+                            continue;
                         }
-                    }
-                }
 
-                if(modelData.expressions){
-                    const expressions = structuredClone((modelData as ICubism2ModelData).expressions);
-                    const expressionManager = internalModel.motionManager.expressionManager;
-                    for(const expressionIndex in modelData.expressions){
-                        expressionManager.expressions[expressionIndex] = new Live2DExpression(expressions[expressionIndex]);
-                    }
-                }
+                        // motions that haven't been preloaded will be loaded on demand
+                        if(!motions[motionGroup][i]) continue;
 
+                        const motion = motionManager.createMotion(motions[motionGroup][i], motionGroup, motionManager.definitions[motionGroup][i]);
+                        motionManager.motionGroups[motionGroup][i] = motion;
 
-            } else {
-                if(modelData.motions){
-                    const motions = structuredClone(modelData.motions);
-                    const motionManager = internalModel.motionManager;
-                    for(const motionGroup in motions){
-                        for(let i =0; i < motions[motionGroup].length; i++){
-                            motionManager.motionGroups[motionGroup][i] = motionManager.createMotion(motions[motionGroup][i], motionGroup, motions[motionGroup][i]);
-
-                            const sound = modelData.sounds?.[motionGroup][i]
-                            if(sound){
-                                motionManager.registerSound(sound, motionGroup, i);
-                            }
+                        const sound = modelData.sounds?.[motionGroup][i]
+                        if(sound){
+                            motionManager.registerSound(sound, motionGroup, i);
                         }
+
+                        // the preloaded motions are reported the same as the ones loaded on demand
+                        motionManager.emit('motionLoaded', motionGroup, i, motion);
                     }
                 }
-                if(modelData.expressions){
-                    const expressions = structuredClone(modelData.expressions);
-                    const expressionManager = internalModel.motionManager.expressionManager;
-                    for(const expressionIndex in modelData.expressions){
-                        expressionManager.expressions[expressionIndex] =  expressionManager?.createExpression(expressions[expressionIndex], (modelData as ICubism4ModelData).settings.FileReferences.Expressions![expressionIndex]);
+            }
+
+            // preload the motions that are not provided by the model data, for example when the model data
+            // has been loaded with a different strategy
+            internalModel.motionManager.preloadMotions(options?.motionPreload);
+
+            // Expressions
+            if(modelData.expressions){
+                const expressions = structuredClone(modelData.expressions) as any[];
+                const expressionManager = internalModel.motionManager.expressionManager;
+                for(let i = 0; i < expressions.length; i++){
+                    // the expression has failed to load, mark it so it won't be loaded again
+                    if(expressions[i] === null){
+                        expressionManager.expressions[i] = null;
+                        continue;
                     }
+
+                    // expressions that haven't been provided will be loaded on demand
+                    if(!expressions[i]) continue;
+
+                    expressionManager.expressions[i] = expressionManager.createExpression(expressions[i], expressionManager.definitions[i]);
                 }
             }
+
+            this.emit('ready');
+
+            // the rest of the resources have either been provided in the model data, or will be loaded on demand
+            this.emit('load');
+
+            return this;
         });
+
+        // handle the failure here, otherwise it'd become an unhandled rejection when the model is created
+        // directly and nobody is awaiting "ready"
+        this.ready.catch(e => this.emit('error', e));
     }
 
     /**
      * A callback that observes {@link anchor}, invoked when the anchor's values have been changed.
      */
     protected onAnchorChange(): void {
+        // the anchor will be applied once the internal model has been created
+        if (!this.internalModel) return;
+
         this.pivot.set(this.anchor.x * this.internalModel.width, this.anchor.y * this.internalModel.height);
     }
 
@@ -314,6 +605,8 @@ export class Live2DModel extends Container {
      * @param instant - Should the focus position be instantly applied.
      */
     focus(x: number, y: number, instant: boolean = false): void {
+        this.lastFocusTime = this.elapsedTime;
+
         tempPoint.x = x;
         tempPoint.y = y;
 
@@ -325,7 +618,13 @@ export class Live2DModel extends Container {
         let tx = (tempPoint.x / this.internalModel.originalWidth) * 2 - 1
         let ty = (tempPoint.y / this.internalModel.originalHeight) * 2 - 1
         let radian = Math.atan2(ty, tx);
-        this.internalModel.focusController.focus(Math.cos(radian), -Math.sin(radian), instant);
+        let strength = 1;
+
+        if (this.focusMode === FocusMode.PROPORTIONAL) {
+            strength = Math.min(Math.hypot(tx, ty) / this.focusRadius, 1) ** this.focusFalloff;
+        }
+
+        this.internalModel.focusController.focus(Math.cos(radian) * strength, -Math.sin(radian) * strength, instant);
     }
 
     /**
@@ -345,6 +644,47 @@ export class Live2DModel extends Container {
         }
     }
 
+    /**
+     * Updates the hovered hit areas by the pointer's position, and emits the hover events accordingly.
+     * @param x - Position in world space. If either `x` or `y` is omitted, the pointer will be considered
+     * to have left the model.
+     * @param y - Position in world space.
+     * @emits {@link Live2DModelEvents.hitAreaEnter}
+     * @emits {@link Live2DModelEvents.hitAreaLeave}
+     * @emits {@link Live2DModelEvents.hitAreaMove}
+     */
+    hover(x?: number, y?: number): void {
+        const hitAreaNames = x === undefined || y === undefined ? [] : this.hitTest(x, y);
+
+        const enteredHitAreas = hitAreaNames.filter(name => !this.hoveredHitAreas.includes(name));
+        const leftHitAreas = this.hoveredHitAreas.filter(name => !hitAreaNames.includes(name));
+        const wasHovering = this.hoveredHitAreas.length > 0;
+
+        this.hoveredHitAreas = hitAreaNames;
+
+        if (this.hoverCursor !== undefined) {
+            if (hitAreaNames.length && !wasHovering) {
+                this.cursorBeforeHover = this.cursor;
+                this.cursor = this.hoverCursor;
+            } else if (!hitAreaNames.length && wasHovering) {
+                this.cursor = this.cursorBeforeHover!;
+                this.cursorBeforeHover = undefined;
+            }
+        }
+
+        if (leftHitAreas.length) {
+            this.emit('hitAreaLeave', leftHitAreas);
+        }
+
+        if (enteredHitAreas.length) {
+            this.emit('hitAreaEnter', enteredHitAreas);
+        }
+
+        if (hitAreaNames.length) {
+            this.emit('hitAreaMove', hitAreaNames, x!, y!);
+        }
+    }
+
     /**
      * Hit-test on the model.
      * @param x - Position in world space.
@@ -359,6 +699,70 @@ export class Live2DModel extends Container {
         return this.internalModel.hitTest(tempPoint.x, tempPoint.y);
     }
 
+    /**
+     * Hit-test on the drawables, see {@link InternalModel.hitTestDrawables}.
+     * @param x - Position in world space.
+     * @param y - Position in world space.
+     * @return The IDs of the *hit* drawables, sorted from the topmost to the bottommost.
+     */
+    hitTestDrawables(x: number, y: number): string[] {
+        tempPoint.x = x;
+        tempPoint.y = y;
+        this.toModelPosition(tempPoint, tempPoint);
+
+        return this.internalModel.hitTestDrawables(tempPoint.x, tempPoint.y);
+    }
+
+    /**
+     * Reads the alpha of a texture for hit testing. Only the pixel at given position is read,
+     * so no copy of the texture's pixels will be kept.
+     * @param index - Index of the texture.
+     * @param x - Horizontal position in the texture, from 0 (left) to 1 (right).
+     * @param y - Vertical position in the texture, from 0 (top) to 1 (bottom).
+     * @return The alpha from 0 to 1, or undefined if the texture is not ready or cannot be read.
+     */
+    protected readTextureAlpha(index: number, x: number, y: number): number | undefined {
+        const baseTexture = this.textures[index]?.baseTexture;
+
+        if (!baseTexture?.valid || unreadableTextures.has(baseTexture)) {
+            return undefined;
+        }
+
+        const resource = baseTexture.resource;
+
+        // only the textures created from images, canvases and so on can be drawn onto a canvas
+        if (!(resource instanceof BaseImageResource)) {
+            unreadableTextures.add(baseTexture);
+            return undefined;
+        }
+
+        const px = clamp(Math.floor(x * baseTexture.realWidth), 0, baseTexture.realWidth - 1);
+        const py = clamp(Math.floor(y * baseTexture.realHeight), 0, baseTexture.realHeight - 1);
+
+        try {
+            if (!pixelContext) {
+                const canvas = document.createElement('canvas');
+
+                canvas.width = canvas.height = 1;
+
+                pixelContext = canvas.getContext('2d', { willReadFrequently: true })!;
+            }
+
+            pixelContext.clearRect(0, 0, 1, 1);
+            pixelContext.drawImage(resource.source as CanvasImageSource, px, py, 1, 1, 0, 0, 1, 1);
+
+            return pixelContext.getImageData(0, 0, 1, 1).data[3]! / 255;
+        } catch (e) {
+            // a cross-origin image without CORS will taint the canvas, which then must be replaced
+            logger.warn(this.tag, `Failed to read the pixels of texture ${index}, it'll be ignored in hit testing.`, e);
+
+            unreadableTextures.add(baseTexture);
+            pixelContext = undefined;
+
+            return undefined;
+        }
+    }
+
     /**
      * Calculates the position in the canvas of original, unscaled Live2D model.
      * @param position - A Point in world space.
@@ -417,12 +821,20 @@ export class Live2DModel extends Container {
 
         this.wasUpdated = true;
 
+        if (this.focusIdleTimeout > 0 && this.lastFocusTime !== undefined
+            && this.elapsedTime - this.lastFocusTime > this.focusIdleTimeout) {
+            this.lastFocusTime = undefined;
+            this.internalModel?.focusController.focus(0, 0);
+        }
+
         // don't call `this.internalModel.update()` here, because it requires WebGL context
     }
 
     override _render(renderer: Renderer): void {
         //this.registerInteraction(renderer.plugins.interaction);
 
+        this.lastRenderer = renderer;
+
         if (!this.wasUpdated) {
             return;
         }
@@ -506,12 +918,22 @@ export class Live2DModel extends Container {
 
         // the setters will do the cleanup
         this.autoUpdate = false;
+        this.followMouse = false;
+        this.gestures = false;
+        this.parameterDragging = false;
 
         this.removeAllListeners();
 
         this.textures.length = 0;
+        this.lastRenderer = undefined;
+
+        if (this.modelData) {
+            releaseModelData(this.modelData);
+            this.modelData = undefined;
+        }
 
-        this.internalModel.destroy();
+        // the internal model is not created if the model is destroyed before it's ready
+        this.internalModel?.destroy();
 
         super.destroy(options);
     }
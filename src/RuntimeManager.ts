@@ -1,4 +1,4 @@
-import { InternalModel, ModelSettings } from '@/cubism-common';
+import { InternalModel, InternalModelOptions, ModelSettings } from '@/cubism-common';
 import { JSONObject } from './types/helpers';
 
 /**
@@ -48,7 +48,7 @@ export interface Live2DRuntime {
      * @param options - Options that will be passed to the InternalModel's constructor.
      * @return Created InternalModel.
      */
-    createInternalModel(coreModel: any, settings: ModelSettings): InternalModel;
+    createInternalModel(coreModel: any, settings: ModelSettings, options?: InternalModelOptions): InternalModel;
 
     /**
      * Creates a pose.
@@ -6,6 +6,9 @@ export * from './cubism-common';
 export * from './Live2DModel';
 export * from './Live2DTransform';
 export * from './InteractionMixin';
+export * from './GestureRecognizer';
+export * from './DragController';
+export * from './loader';
 export * from './config';
 export * from './utils';
 export * from './types/helpers.d';
@@ -2,6 +2,8 @@ import { ModelSettings } from '@/cubism-common/ModelSettings';
 import { MotionManagerOptions } from '@/cubism-common/MotionManager';
 import { logger } from '@/utils';
 import { EventEmitter } from '@pixi/utils';
+import { Assets } from '@pixi/assets';
+import { releaseAsset, retainAsset } from '@/loader/unload';
 import { ExpressionManagerEvents } from '../types/events';
 import { JSONObject, Mutable } from '../types/helpers';
 
@@ -33,6 +35,16 @@ export abstract class ExpressionManager<Expression = any, ExpressionSpec = any>
      */
     expressions: (Expression | null | undefined)[] = [];
 
+    /**
+     * Pending loading tasks of the Expressions, in the same structure as {@link expressions}.
+     */
+    expressionTasks: Promise<Expression | undefined>[] = [];
+
+    /**
+     * URLs of the files loaded on demand by this manager, which will be released when it's destroyed.
+     */
+    protected assetURLs: string[] = [];
+
     /**
      * An empty Expression to reset all the expression parameters.
      */
@@ -92,15 +104,53 @@ export abstract class ExpressionManager<Expression = any, ExpressionSpec = any>
             return this.expressions[index];
         }
 
-        return undefined;
+        // share the pending task if the expression is already being loaded
+        const expression = await (this.expressionTasks[index] ??= this._loadExpression(index));
+
+        if (this.destroyed) return undefined;
+
+        delete this.expressionTasks[index];
+
+        // don't overwrite the expression if it has been filled in while loading
+        if (this.expressions[index] === undefined) {
+            this.expressions[index] = expression ?? null;
+        }
+
+        return this.expressions[index] ?? undefined;
     }
 
     /**
-     * Loads the Expression. Will be implemented by Live2DFactory in order to avoid circular dependency.
-     * @ignore
+     * Fetches and creates an Expression.
+     * @return Promise that resolves with the Expression, or with undefined if it can't be loaded.
      */
-     private _loadExpression(index: number): Promise<Expression | undefined> {
-        throw new Error('Not implemented.');
+    private async _loadExpression(index: number): Promise<Expression | undefined> {
+        const definition = this.definitions[index]!;
+
+        try {
+            const url = this.settings.resolveURL(this.getExpressionFile(definition));
+
+            retainAsset(url);
+            this.assetURLs.push(url);
+
+            const data = await Assets.load(url);
+
+            if (this.destroyed) return undefined;
+
+            // the data is cached by Assets, so it must be cloned to not be modified by the expression
+            const expression = this.createExpression(structuredClone(data), definition);
+
+            this.emit('expressionLoaded', index, expression);
+
+            return expression;
+        } catch (e) {
+            if (this.destroyed) return undefined;
+
+            logger.warn(this.tag, `Failed to load expression at [${index}]\n`, e);
+
+            this.emit('expressionLoadError', index, e);
+
+            return undefined;
+        }
     }
 
     /**
@@ -198,9 +248,13 @@ export abstract class ExpressionManager<Expression = any, ExpressionSpec = any>
         this.destroyed = true;
         this.emit('destroy');
 
+        this.assetURLs.forEach(releaseAsset);
+        this.assetURLs.length = 0;
+
         const self = this as Mutable<Partial<this>>;
         self.definitions = undefined;
         self.expressions = undefined;
+        self.expressionTasks = undefined;
     }
 
     /**
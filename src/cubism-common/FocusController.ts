@@ -8,6 +8,17 @@ const MAX_SPEED = 40 / 7.5;
 // the time to accelerate to max speed
 const ACCELERATION_TIME = 1 / (0.15 * 1000);
 
+/**
+ * Indicates how a position is converted into the focus.
+ */
+export enum FocusMode {
+    /** Only the direction of the position matters, the model always looks to the fullest extent. */
+    DIRECTION = 'DIRECTION',
+
+    /** The farther the position is from the model's center, the more the model turns to it. */
+    PROPORTIONAL = 'PROPORTIONAL',
+}
+
 /**
  * Interpolates the transition of focus position.
  */
@@ -31,6 +31,189 @@ export interface CommonHitArea {
     index: number;
 }
 
+/**
+ * Common parameter definition shared between all Cubism versions.
+ */
+export interface CommonParameter {
+    id: string;
+    index: number;
+    min: number;
+    max: number;
+    default: number;
+}
+
+/**
+ * Source of a hit area registered at runtime by {@link InternalModel.addHitArea}, can be one of:
+ * - A drawable, specified by its index or ID.
+ * - A part, specified by its index or ID, which will be hit when any drawable under it is hit.
+ * - A polygon in model canvas, in the form of `[x0, y0, x1, y1, ...]`.
+ */
+export type HitAreaSource = { drawable: number | string } | { part: number | string } | { polygon: number[] };
+
+/**
+ * A hit area registered at runtime.
+ */
+export interface CustomHitArea {
+    name: string;
+
+    /**
+     * Index of the drawable, if the hit area is created from a drawable.
+     */
+    drawable?: number;
+
+    /**
+     * Index of the part, if the hit area is created from a part.
+     */
+    part?: number;
+
+    /**
+     * The polygon in model canvas, if the hit area is created from a polygon.
+     */
+    polygon?: number[];
+}
+
+/**
+ * Blend mode of a drawable.
+ */
+export type DrawableBlendMode = 'normal' | 'additive' | 'multiply';
+
+/**
+ * Common drawable definition shared between all Cubism versions.
+ */
+export interface CommonDrawable {
+    id: string;
+    index: number;
+
+    /**
+     * Index of the texture that the drawable is drawn with.
+     */
+    textureIndex: number;
+
+    /**
+     * UV coordinates of the vertices, in the form of `[u0, v0, u1, v1, ...]`.
+     */
+    uvs: Float32Array;
+
+    /**
+     * Indices of the vertices, each three of which form a triangle.
+     */
+    indices: Uint16Array;
+
+    /**
+     * Current opacity.
+     */
+    opacity: number;
+
+    /**
+     * Position in the drawing order, the drawable at 0 is drawn first.
+     */
+    renderOrder: number;
+
+    /**
+     * Whether the drawable will be drawn in current frame.
+     */
+    visible: boolean;
+
+    /**
+     * Whether the back faces of the drawable will be drawn.
+     */
+    doubleSided: boolean;
+
+    /**
+     * Blend mode. Cubism 2 core does not expose it, so it's always `normal` in Cubism 2.
+     */
+    blendMode: DrawableBlendMode;
+
+    /**
+     * Indices of the drawables that mask this drawable.
+     */
+    masks: number[];
+}
+
+/**
+ * The data of a drawable used by hit-testing. The arrays are the core model's own ones rather than copies,
+ * so they must not be modified.
+ */
+export interface DrawableMesh {
+    /**
+     * Positions of the vertices in the core model's space, see {@link InternalModel.toVertexSpace}.
+     */
+    vertices: Float32Array;
+
+    /**
+     * Indices of the vertices, each three of which form a triangle.
+     */
+    indices: Uint16Array;
+
+    /**
+     * UV coordinates of the vertices.
+     */
+    uvs: Float32Array;
+
+    textureIndex: number;
+    opacity: number;
+    visible: boolean;
+}
+
+/**
+ * Common part definition shared between all Cubism versions.
+ */
+export interface CommonPart {
+    id: string;
+    index: number;
+
+    /**
+     * Index of the parent part, available only in Cubism 4. It's -1 if the part has no parent.
+     */
+    parentIndex?: number;
+
+    /**
+     * Current opacity.
+     */
+    opacity: number;
+}
+
+/**
+ * Options of a parameter override.
+ */
+export interface ParameterOverrideOptions {
+    /**
+     * Weight of the override to be blended with the parameter's value, from 0 to 1.
+     * @default 1
+     */
+    weight?: number;
+
+    /**
+     * Duration in milliseconds to fade in the override.
+     * @default 0
+     */
+    fadeInTime?: number;
+}
+
+/**
+ * A parameter value pinned by {@link InternalModel.setParameterOverride}.
+ */
+export interface ParameterOverride {
+    value: number;
+    weight: number;
+    fadeInTime: number;
+
+    /**
+     * Duration in milliseconds to fade out the override, defined when the override is being removed.
+     */
+    fadeOutTime?: number;
+
+    /**
+     * Elapsed time in milliseconds since the override was set.
+     */
+    elapsedTime: number;
+
+    /**
+     * Elapsed time in milliseconds since the override started fading out.
+     */
+    fadeOutElapsedTime: number;
+}
+
 export interface Bounds {
     x: number;
     y: number;
@@ -38,9 +221,66 @@ export interface Bounds {
     height: number;
 }
 
-export interface InternalModelOptions extends MotionManagerOptions {}
+/**
+ * Ranges of the parameters driven by the focus. Each parameter changes from `-range` to `range`
+ * as the focus moves from one side to the other.
+ */
+export interface FocusRanges {
+    /** Turning of the head. */
+    angleX: number;
+
+    /** Nodding of the head. */
+    angleY: number;
+
+    /** Tilting of the head, which is driven by both horizontal and vertical focus. */
+    angleZ: number;
+
+    /** Turning of the body. */
+    bodyAngleX: number;
+
+    /** Horizontal movement of the eyeballs. */
+    eyeBallX: number;
+
+    /** Vertical movement of the eyeballs. */
+    eyeBallY: number;
+}
+
+/**
+ * Indicates how the hit areas are tested.
+ */
+export enum HitTestMode {
+    /** Test against the drawable's bounding box. Fast but imprecise, as the box usually covers empty space. */
+    BOUNDS = 'BOUNDS',
+
+    /** Test against the drawable's triangles. */
+    MESH = 'MESH',
+
+    /** Test against the drawable's triangles, and then against the alpha of the texture at the hit position. */
+    PIXEL = 'PIXEL',
+}
+
+export interface InternalModelOptions extends MotionManagerOptions {
+    /**
+     * How the hit areas are tested.
+     * @default {@link HitTestMode.BOUNDS}
+     */
+    hitTestMode?: HitTestMode;
+
+    /**
+     * The minimum texture alpha, from 0 to 1, for a position to be hit in {@link HitTestMode.PIXEL}.
+     * @default 0.5
+     */
+    hitAlphaThreshold?: number;
+
+    /**
+     * Ranges of the parameters driven by the focus, the omitted ones will use the default values.
+     * @see {@link InternalModel.focusRanges}
+     */
+    focusRanges?: Partial<FocusRanges>;
+}
 
 const tempBounds: Bounds = { x: 0, y: 0, width: 0, height: 0 };
+const tempPosition = { x: 0, y: 0 };
 
 /**
  * A wrapper that manages the states of a Live2D core model, and delegates all operations to it.
@@ -56,11 +296,33 @@ export abstract class InternalModel extends EventEmitter {
 
     focusController = new FocusController();
 
+    /**
+     * Ranges of the parameters driven by the focus.
+     */
+    focusRanges: FocusRanges = {
+        angleX: 30,
+        angleY: 30,
+        angleZ: 30,
+        bodyAngleX: 10,
+        eyeBallX: 1,
+        eyeBallY: 1,
+    };
+
     abstract motionManager: MotionManager;
 
     pose?: any;
     physics?: any;
 
+    /**
+     * Display information of the parameters and parts, available only in Cubism 4.
+     */
+    displayInfo?: any;
+
+    /**
+     * User data attached to the drawables, available only in Cubism 4.
+     */
+    userData?: any;
+
     /**
      * Original canvas width of the model. Note this doesn't represent the model's real size,
      * as the model can overflow from its canvas.
@@ -93,12 +355,51 @@ export abstract class InternalModel extends EventEmitter {
      */
     drawingMatrix = new Matrix();
 
+    /**
+     * Parameter values pinned by app code, keyed by the parameters' IDs or indices. They are applied
+     * in each update after the motions, expressions and focus, so they won't be overwritten, but before
+     * the physics, so the physics will react to them.
+     */
+    parameterOverrides = new Map<string | number, ParameterOverride>();
+
+    /**
+     * Part opacities set by {@link setPartOpacity}, keyed by the parts' IDs or indices. They are applied
+     * in each update after the pose, so they won't be overwritten.
+     */
+    partOpacityOverrides = new Map<string | number, number>();
+
     // TODO: change structure
     /**
      * The hit area definitions, keyed by their names.
      */
     hitAreas: Record<string, CommonHitArea> = {};
 
+    /**
+     * The hit areas registered at runtime by {@link addHitArea}, keyed by their names. They take precedence
+     * over the hit areas defined in settings if the names collide.
+     */
+    customHitAreas: Record<string, CustomHitArea> = {};
+
+    /**
+     * How the hit areas are tested.
+     */
+    hitTestMode: HitTestMode;
+
+    /**
+     * The minimum texture alpha, from 0 to 1, for a position to be hit in {@link HitTestMode.PIXEL}.
+     */
+    hitAlphaThreshold: number;
+
+    /**
+     * Reads the alpha of a texture, required by {@link HitTestMode.PIXEL}. It's provided by the Live2DModel
+     * that owns the textures, without it, the hit testing falls back to {@link HitTestMode.MESH}.
+     * @param textureIndex - Index of the texture.
+     * @param x - Horizontal position in the texture, from 0 (left) to 1 (right).
+     * @param y - Vertical position in the texture, from 0 (top) to 1 (bottom).
+     * @return The alpha from 0 to 1, or undefined if it cannot be read.
+     */
+    textureAlphaReader?: (textureIndex: number, x: number, y: number) => number | undefined;
+
     /**
      * Flags whether `gl.UNPACK_FLIP_Y_WEBGL` should be enabled when binding the textures.
      */
@@ -114,6 +415,15 @@ export abstract class InternalModel extends EventEmitter {
      */
     destroyed = false;
 
+    protected constructor(options?: InternalModelOptions) {
+        super();
+
+        this.hitTestMode = options?.hitTestMode ?? HitTestMode.BOUNDS;
+        this.hitAlphaThreshold = options?.hitAlphaThreshold ?? 0.5;
+
+        Object.assign(this.focusRanges, options?.focusRanges);
+    }
+
     /**
      * Should be called in the constructor of derived class.
      */
@@ -181,7 +491,80 @@ export abstract class InternalModel extends EventEmitter {
      * @return The names of the *hit* hit areas. Can be empty if none is hit.
      */
     hitTest(x: number, y: number): string[] {
-        return Object.keys(this.hitAreas).filter(hitAreaName => this.isHit(hitAreaName, x, y));
+        const hitAreaNames = new Set([...Object.keys(this.hitAreas), ...Object.keys(this.customHitAreas)]);
+
+        return [...hitAreaNames].filter(hitAreaName => this.isHit(hitAreaName, x, y));
+    }
+
+    /**
+     * Hit-test on the drawables, in the way specified by {@link hitTestMode}. The drawables that are not
+     * visible or fully transparent will be ignored.
+     * @param x - Position in model canvas.
+     * @param y - Position in model canvas.
+     * @return The IDs of the *hit* drawables, sorted from the topmost to the bottommost.
+     */
+    hitTestDrawables(x: number, y: number): string[] {
+        const ids = this.getDrawableIDs();
+        const { x: vx, y: vy } = this.toVertexSpace(x, y, tempPosition);
+        const hitIndices: number[] = [];
+
+        for (let index = 0; index < ids.length; index++) {
+            const mesh = this.getDrawableMesh(index);
+
+            if (mesh.visible && mesh.opacity > 0 && this.isMeshHit(mesh, vx, vy)) {
+                hitIndices.push(index);
+            }
+        }
+
+        if (!hitIndices.length) {
+            return [];
+        }
+
+        const renderOrders = this.getDrawableRenderOrders();
+
+        return hitIndices
+            .sort((a, b) => renderOrders[b]! - renderOrders[a]!)
+            .map(index => ids[index]!);
+    }
+
+    /**
+     * Registers a hit area, which will be tested by {@link hitTest} along with the ones defined in settings.
+     * @param name - Name of the hit area. An existing custom hit area with the same name will be replaced.
+     * @param source - Where the hit area comes from.
+     * @throws Error when the drawable or part cannot be found.
+     */
+    addHitArea(name: string, source: HitAreaSource) {
+        const hitArea: CustomHitArea = { name };
+
+        if ('drawable' in source) {
+            const index = typeof source.drawable === 'string' ? this.getDrawableIndex(source.drawable) : source.drawable;
+
+            if (!(index >= 0 && index < this.getDrawableIDs().length)) {
+                throw new TypeError('Unable to find drawable: ' + source.drawable);
+            }
+
+            hitArea.drawable = index;
+        } else if ('part' in source) {
+            const index = typeof source.part === 'string' ? this.getPartIndex(source.part) : source.part;
+
+            if (!(index >= 0 && index < this.getParts().length)) {
+                throw new TypeError('Unable to find part: ' + source.part);
+            }
+
+            hitArea.part = index;
+        } else {
+            hitArea.polygon = source.polygon.slice();
+        }
+
+        this.customHitAreas[name] = hitArea;
+    }
+
+    /**
+     * Removes a hit area registered by {@link addHitArea}.
+     * @param name - Name of the hit area.
+     */
+    removeHitArea(name: string) {
+        delete this.customHitAreas[name];
     }
 
     /**
@@ -192,49 +575,132 @@ export abstract class InternalModel extends EventEmitter {
      * @return True if hit.
      */
     isHit(hitAreaName: string, x: number, y: number): boolean {
+        const customHitArea = this.customHitAreas[hitAreaName];
+
+        if (customHitArea) {
+            if (customHitArea.polygon) {
+                return isInPolygon(customHitArea.polygon, x, y);
+            }
+
+            if (customHitArea.part !== undefined) {
+                // a hidden part, e.g. an arm switched off by the pose, should not be hit
+                return this.getPartOpacity(customHitArea.part) > 0
+                    && this.getPartDrawableIndices(customHitArea.part).some(index => this.isDrawableHit(index, x, y));
+            }
+
+            return this.isDrawableHit(customHitArea.drawable!, x, y);
+        }
+
         if (!this.hitAreas[hitAreaName]) {
             return false;
         }
 
-        const drawIndex = this.hitAreas[hitAreaName]!.index;
+        return this.isDrawableHit(this.hitAreas[hitAreaName]!.index, x, y);
+    }
 
-        const bounds = this.getDrawableBounds(drawIndex, tempBounds);
+    /**
+     * Hit-test for a single drawable, in the way specified by {@link hitTestMode}.
+     * @param index - Index of the drawable.
+     * @param x - Position in model canvas.
+     * @param y - Position in model canvas.
+     * @return True if hit.
+     */
+    isDrawableHit(index: number, x: number, y: number): boolean {
+        const { x: vx, y: vy } = this.toVertexSpace(x, y, tempPosition);
 
-        return bounds.x <= x && x <= bounds.x + bounds.width && bounds.y <= y && y <= bounds.y + bounds.height;
+        return this.isMeshHit(this.getDrawableMesh(index), vx, vy);
     }
 
     /**
-     * Gets a drawable's bounds.
-     * @param index - Index of the drawable.
-     * @param bounds - Object to store the output values.
-     * @return The bounds in model canvas space.
+     * Hit-test for a drawable's mesh.
+     * @param mesh - The drawable's mesh.
+     * @param x - Position in the core model's vertex space.
+     * @param y - Position in the core model's vertex space.
+     * @return True if hit.
      */
-    getDrawableBounds(index: number, bounds?: Bounds): Bounds {
-        const vertices = this.getDrawableVertices(index);
+    protected isMeshHit(mesh: DrawableMesh, x: number, y: number): boolean {
+        const { vertices, indices, uvs, textureIndex } = mesh;
+        const bounds = getVerticesBounds(vertices, tempBounds);
+
+        // the bounding box is always checked first since it's much cheaper
+        if (!(bounds.x <= x && x <= bounds.x + bounds.width && bounds.y <= y && y <= bounds.y + bounds.height)) {
+            return false;
+        }
+
+        if (this.hitTestMode === HitTestMode.BOUNDS) {
+            return true;
+        }
+
+        const testAlpha = this.hitTestMode === HitTestMode.PIXEL && !!this.textureAlphaReader;
+
+        for (let i = 0; i + 2 < indices.length; i += 3) {
+            const i0 = indices[i]!;
+            const i1 = indices[i + 1]!;
+            const i2 = indices[i + 2]!;
+
+            const x0 = vertices[i0 * 2]!;
+            const y0 = vertices[i0 * 2 + 1]!;
+
+            // barycentric coordinates of the point in the triangle, which are not affected by the linear
+            // transform between the vertex space and the model canvas
+            const e1x = vertices[i1 * 2]! - x0;
+            const e1y = vertices[i1 * 2 + 1]! - y0;
+            const e2x = vertices[i2 * 2]! - x0;
+            const e2y = vertices[i2 * 2 + 1]! - y0;
+            const det = e1x * e2y - e2x * e1y;
+
+            if (det === 0) {
+                continue;
+            }
 
-        let left = vertices[0]!;
-        let right = vertices[0]!;
-        let top = vertices[1]!;
-        let bottom = vertices[1]!;
+            const s = ((x - x0) * e2y - e2x * (y - y0)) / det;
+            const t = (e1x * (y - y0) - (x - x0) * e1y) / det;
 
-        for (let i = 0; i < vertices.length; i += 2) {
-            const vx = vertices[i]!;
-            const vy = vertices[i + 1]!;
+            if (s < 0 || t < 0 || s + t > 1) {
+                continue;
+            }
 
-            left = Math.min(vx, left);
-            right = Math.max(vx, right);
-            top = Math.min(vy, top);
-            bottom = Math.max(vy, bottom);
+            if (!testAlpha) {
+                return true;
+            }
+
+            const u = uvs[i0 * 2]! + s * (uvs[i1 * 2]! - uvs[i0 * 2]!) + t * (uvs[i2 * 2]! - uvs[i0 * 2]!);
+            const v = uvs[i0 * 2 + 1]! + s * (uvs[i1 * 2 + 1]! - uvs[i0 * 2 + 1]!) + t * (uvs[i2 * 2 + 1]! - uvs[i0 * 2 + 1]!);
+
+            // the V axis of UVs points upwards in both Cubism 2 and 4
+            const alpha = this.textureAlphaReader!(textureIndex, u, 1 - v);
+
+            if (alpha === undefined || alpha >= this.hitAlphaThreshold) {
+                return true;
+            }
         }
 
-        bounds ??= {} as Bounds;
+        return false;
+    }
 
-        bounds.x = left;
-        bounds.y = top;
-        bounds.width = right - left;
-        bounds.height = bottom - top;
+    /**
+     * Converts a position in model canvas to the space of the core model's vertices, where the meshes
+     * are hit-tested so the vertices won't need to be copied and transformed. It's an identity by default.
+     * @param x - Position in model canvas.
+     * @param y - Position in model canvas.
+     * @param point - Object to store the output values.
+     * @return The position in vertex space.
+     */
+    protected toVertexSpace(x: number, y: number, point: { x: number; y: number }): { x: number; y: number } {
+        point.x = x;
+        point.y = y;
 
-        return bounds;
+        return point;
+    }
+
+    /**
+     * Gets a drawable's bounds.
+     * @param index - Index of the drawable.
+     * @param bounds - Object to store the output values.
+     * @return The bounds in model canvas space.
+     */
+    getDrawableBounds(index: number, bounds?: Bounds): Bounds {
+        return getVerticesBounds(this.getDrawableVertices(index), bounds ?? {} as Bounds);
     }
 
     /**
@@ -254,6 +720,118 @@ export abstract class InternalModel extends EventEmitter {
         this.focusController.update(dt);
     };
 
+    /**
+     * Pins a parameter to a value, which persists across updates until it's removed.
+     * @param index - Either the index or the ID of the parameter.
+     * @param value - The value.
+     * @param options - Options of the override.
+     */
+    setParameterOverride(index: number | string, value: number, options: ParameterOverrideOptions = {}) {
+        const existing = this.parameterOverrides.get(index);
+
+        this.parameterOverrides.set(index, {
+            value,
+            weight: options.weight ?? 1,
+            fadeInTime: options.fadeInTime ?? 0,
+
+            // don't fade in again if the override is being replaced
+            elapsedTime: existing && existing.fadeOutTime === undefined ? existing.elapsedTime : 0,
+            fadeOutElapsedTime: 0,
+        });
+    }
+
+    /**
+     * Removes a parameter override.
+     * @param index - Either the index or the ID of the parameter.
+     * @param fadeOutTime - Duration in milliseconds to fade out the override before it's removed.
+     */
+    removeParameterOverride(index: number | string, fadeOutTime = 0) {
+        const override = this.parameterOverrides.get(index);
+
+        if (!override) return;
+
+        if (fadeOutTime > 0) {
+            override.fadeOutTime = fadeOutTime;
+            override.fadeOutElapsedTime = 0;
+        } else {
+            this.parameterOverrides.delete(index);
+        }
+    }
+
+    /**
+     * Removes all the parameter overrides.
+     * @param fadeOutTime - Duration in milliseconds to fade out the overrides before they're removed.
+     */
+    clearParameterOverrides(fadeOutTime = 0) {
+        for (const index of [...this.parameterOverrides.keys()]) {
+            this.removeParameterOverride(index, fadeOutTime);
+        }
+    }
+
+    /**
+     * Sets a part's opacity. The opacity persists across updates until it's reset by {@link resetPartOpacity},
+     * which means it overrides the opacity set by motions and the pose.
+     * @param index - Either the index or the ID of the part.
+     * @param opacity - The opacity, from 0 to 1.
+     */
+    setPartOpacity(index: number | string, opacity: number) {
+        this.partOpacityOverrides.set(index, opacity);
+        this.updatePartOpacity(index, opacity);
+    }
+
+    /**
+     * Resets a part's opacity that has been set by {@link setPartOpacity}, so it'll be controlled
+     * by motions and the pose again.
+     * @param index - Either the index or the ID of the part. If omitted, all parts will be reset.
+     */
+    resetPartOpacity(index?: number | string) {
+        if (index === undefined) {
+            this.partOpacityOverrides.clear();
+        } else {
+            this.partOpacityOverrides.delete(index);
+        }
+    }
+
+    /**
+     * Applies the part opacities set by {@link setPartOpacity} to the core model. Should be called
+     * in {@link update} after the pose has been updated.
+     */
+    protected applyPartOpacityOverrides() {
+        for (const [index, opacity] of this.partOpacityOverrides) {
+            this.updatePartOpacity(index, opacity);
+        }
+    }
+
+    /**
+     * Applies the parameter overrides to the core model. Should be called in {@link update}
+     * after all the other parameter updates, and before the physics.
+     * @param dt - Elapsed time in milliseconds from last frame.
+     */
+    protected applyParameterOverrides(dt: DOMHighResTimeStamp) {
+        for (const [index, override] of this.parameterOverrides) {
+            override.elapsedTime += dt;
+
+            let weight = override.weight;
+
+            if (override.fadeInTime > 0) {
+                weight *= Math.min(override.elapsedTime / override.fadeInTime, 1);
+            }
+
+            if (override.fadeOutTime !== undefined) {
+                override.fadeOutElapsedTime += dt;
+
+                if (override.fadeOutElapsedTime >= override.fadeOutTime) {
+                    this.parameterOverrides.delete(index);
+                    continue;
+                }
+
+                weight *= 1 - override.fadeOutElapsedTime / override.fadeOutTime;
+            }
+
+            this.setParameterValue(index, override.value, weight);
+        }
+    }
+
     /**
      * Destroys the model and all related resources.
      * @emits {@link InternalModelEvents.destroy | destroy}
@@ -264,6 +842,9 @@ export abstract class InternalModel extends EventEmitter {
 
         this.motionManager.destroy();
         (this as Partial<this>).motionManager = undefined;
+
+        this.parameterOverrides.clear();
+        this.partOpacityOverrides.clear();
     }
 
     /**
@@ -303,6 +884,105 @@ export abstract class InternalModel extends EventEmitter {
      */
     abstract getDrawableVertices(index: number | string): Float32Array;
 
+    /**
+     * Gets a drawable's information, which is a snapshot and will not be updated with the model.
+     * @param index - Either the index or the ID of the drawable.
+     * @throws Error when the drawable cannot be found.
+     */
+    abstract getDrawable(index: number | string): CommonDrawable;
+
+    /**
+     * Gets all the drawables' information.
+     */
+    getDrawables(): CommonDrawable[] {
+        return this.getDrawableIDs().map(id => this.getDrawable(id));
+    }
+
+    /**
+     * Gets a drawable's mesh for hit-testing, without copying the core model's data.
+     * @param index - Index of the drawable.
+     */
+    protected abstract getDrawableMesh(index: number): DrawableMesh;
+
+    /**
+     * Gets all the drawables' positions in the drawing order, indexed by the drawables' indices.
+     */
+    protected abstract getDrawableRenderOrders(): ArrayLike<number>;
+
+    /**
+     * Gets all the parameters' definitions.
+     * @return Normalized definitions.
+     */
+    abstract getParameters(): CommonParameter[];
+
+    /**
+     * Finds the index of a parameter by its ID.
+     * @return The index, or -1 if not found.
+     */
+    abstract getParameterIndex(id: string): number;
+
+    /**
+     * Gets a parameter's value.
+     * @param index - Either the index or the ID of the parameter.
+     */
+    abstract getParameterValue(index: number | string): number;
+
+    /**
+     * Sets a parameter's value.
+     * @param index - Either the index or the ID of the parameter.
+     * @param value - The value.
+     * @param weight - Weight of the value to be blended with the current value, from 0 to 1.
+     */
+    abstract setParameterValue(index: number | string, value: number, weight?: number): void;
+
+    /**
+     * Adds a value to a parameter.
+     * @param index - Either the index or the ID of the parameter.
+     * @param value - The value to be added.
+     * @param weight - Weight of the value, from 0 to 1.
+     */
+    abstract addParameterValue(index: number | string, value: number, weight?: number): void;
+
+    /**
+     * Multiplies a parameter by a value.
+     * @param index - Either the index or the ID of the parameter.
+     * @param value - The multiplier.
+     * @param weight - Weight of the multiplier, from 0 to 1.
+     */
+    abstract multiplyParameterValue(index: number | string, value: number, weight?: number): void;
+
+    /**
+     * Gets all the parts' definitions.
+     * @return Normalized definitions.
+     */
+    abstract getParts(): CommonPart[];
+
+    /**
+     * Finds the index of a part by its ID.
+     * @return The index, or -1 if not found.
+     */
+    abstract getPartIndex(id: string): number;
+
+    /**
+     * Gets the indices of the drawables under a part, including those under its child parts.
+     * @param index - Either the index or the ID of the part.
+     */
+    abstract getPartDrawableIndices(index: number | string): number[];
+
+    /**
+     * Gets a part's current opacity.
+     * @param index - Either the index or the ID of the part.
+     */
+    abstract getPartOpacity(index: number | string): number;
+
+    /**
+     * Sets a part's opacity in the core model, which will be overwritten in the next update.
+     * Use {@link setPartOpacity} to set it persistently.
+     * @param index - Either the index or the ID of the part.
+     * @param opacity - The opacity, from 0 to 1.
+     */
+    protected abstract updatePartOpacity(index: number | string, opacity: number): void;
+
     /**
      * Updates WebGL context bound to this model.
      * @param gl - WebGL context.
@@ -321,3 +1001,53 @@ export abstract class InternalModel extends EventEmitter {
      */
     abstract draw(gl: WebGLRenderingContext): void;
 }
+
+/**
+ * Calculates the bounds of vertices.
+ * @param vertices - The vertices in the form of `[x0, y0, x1, y1, ...]`.
+ * @param bounds - Object to store the output values.
+ */
+function getVerticesBounds(vertices: Float32Array, bounds: Bounds): Bounds {
+    let left = vertices[0]!;
+    let right = vertices[0]!;
+    let top = vertices[1]!;
+    let bottom = vertices[1]!;
+
+    for (let i = 0; i < vertices.length; i += 2) {
+        const vx = vertices[i]!;
+        const vy = vertices[i + 1]!;
+
+        left = Math.min(vx, left);
+        right = Math.max(vx, right);
+        top = Math.min(vy, top);
+        bottom = Math.max(vy, bottom);
+    }
+
+    bounds.x = left;
+    bounds.y = top;
+    bounds.width = right - left;
+    bounds.height = bottom - top;
+
+    return bounds;
+}
+
+/**
+ * Tests if a point is in a polygon, using the even-odd rule.
+ * @param polygon - The polygon in the form of `[x0, y0, x1, y1, ...]`.
+ */
+function isInPolygon(polygon: number[], x: number, y: number): boolean {
+    let inside = false;
+
+    for (let i = 0, j = polygon.length - 2; i < polygon.length; j = i, i += 2) {
+        const xi = polygon[i]!;
+        const yi = polygon[i + 1]!;
+        const xj = polygon[j]!;
+        const yj = polygon[j + 1]!;
+
+        if ((yi > y) !== (yj > y) && x < (xj - xi) * (y - yi) / (yj - yi) + xi) {
+            inside = !inside;
+        }
+    }
+
+    return inside;
+}
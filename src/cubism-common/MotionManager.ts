@@ -7,11 +7,14 @@ import { EventEmitter } from '@pixi/utils';
 import { JSONObject, Mutable } from '../types/helpers';
 import { IMediaInstance, PlayOptions, Sound } from '@pixi/sound';
 import { WebAudioMedia } from '@pixi/sound/lib/webaudio';
+import { Assets } from '@pixi/assets';
+import { releaseAsset, retainAsset } from '@/loader/unload';
 
 export interface MotionManagerOptions {
     /**
-     * How to preload the motions.
-     * @default {@link MotionPreloadStrategy.NONE}
+     * How to preload the motions. The motions that are not preloaded will be loaded when they're started
+     * for the first time.
+     * @default {@link MotionPreloadStrategy.IDLE}
      */
     motionPreload?: MotionPreloadStrategy;
 
@@ -84,6 +87,16 @@ export abstract class MotionManager<Motion = any, MotionSpec = any> extends Even
      */
     motionGroups: Partial<Record<string, (Motion | undefined | null)[]>> = {};
 
+    /**
+     * Pending loading tasks of the Motions, in the same structure as {@link motionGroups}.
+     */
+    motionTasks: Partial<Record<string, Promise<Motion | undefined>[]>> = {};
+
+    /**
+     * URLs of the files loaded on demand by this manager, which will be released when it's destroyed.
+     */
+    protected assetURLs: string[] = [];
+
     /**
      * Maintains the state of this MotionManager.
      */
@@ -94,6 +107,12 @@ export abstract class MotionManager<Motion = any, MotionSpec = any> extends Even
      */
     private _motionActive = false;
 
+    /**
+     * Timestamp of the first update since the current motion has started, in the same unit as `now`
+     * in {@link update}. Used to calculate the time of motion events.
+     */
+    protected motionStartTime?: number;
+
     public get motionActive(){
         return this._motionActive;
     }
@@ -150,11 +169,18 @@ export abstract class MotionManager<Motion = any, MotionSpec = any> extends Even
             this.motionGroups[group] = [];
         }
 
-        // preload motions
+        this.preloadMotions(options?.motionPreload);
+    }
 
+    /**
+     * Preloads the motions according to the preload strategy. The motions that have been loaded,
+     * or have failed to load, will be skipped.
+     * @param strategy - The preload strategy.
+     */
+    preloadMotions(strategy = MotionPreloadStrategy.IDLE): void {
         let groups;
 
-        switch (options?.motionPreload) {
+        switch (strategy) {
             case MotionPreloadStrategy.NONE:
                 return;
 
@@ -171,7 +197,9 @@ export abstract class MotionManager<Motion = any, MotionSpec = any> extends Even
         for (const group of groups) {
             if (this.definitions[group]) {
                 for (let i = 0; i < this.definitions[group]!.length; i++) {
-                    this.loadMotion(group, i).then();
+                    if (this.motionGroups[group]![i] === undefined) {
+                        this.loadMotion(group, i).then();
+                    }
                 }
             }
         }
@@ -200,7 +228,70 @@ export abstract class MotionManager<Motion = any, MotionSpec = any> extends Even
         if (this.motionGroups[group][index]) {
             return this.motionGroups[group][index];
         }
-        return undefined;
+
+        this.motionTasks[group] ??= [];
+
+        // share the pending task if the motion is already being loaded
+        const motion = await (this.motionTasks[group]![index] ??= this._loadMotion(group, index));
+
+        if (this.destroyed) return undefined;
+
+        delete this.motionTasks[group]![index];
+
+        // don't overwrite the motion if it has been filled in while loading
+        if (this.motionGroups[group]![index] === undefined) {
+            this.motionGroups[group]![index] = motion ?? null;
+        }
+
+        return this.motionGroups[group]![index] ?? undefined;
+    }
+
+    /**
+     * Fetches and creates a Motion, along with its sound if defined.
+     * @return Promise that resolves with the Motion, or with undefined if it can't be loaded.
+     */
+    private async _loadMotion(group: string, index: number): Promise<Motion | undefined> {
+        const definition = this.definitions[group]![index]!;
+
+        try {
+            const soundFile = this.getSoundFile(definition);
+
+            const [data, sound] = await Promise.all([
+                this.loadAsset(this.settings.resolveURL(this.getMotionFile(definition))),
+                soundFile && config.sound ? this.loadAsset<Sound>(this.settings.resolveURL(soundFile)) : undefined,
+            ]);
+
+            if (this.destroyed) return undefined;
+
+            // the data is cached by Assets, so it must be cloned to not be modified by the motion
+            const motion = this.createMotion(structuredClone(data), group, definition);
+
+            if (sound) {
+                this.registerSound(sound, group, index);
+            }
+
+            this.emit('motionLoaded', group, index, motion);
+
+            return motion;
+        } catch (e) {
+            if (this.destroyed) return undefined;
+
+            logger.warn(this.tag, `Failed to load motion: ${this.getMotionName(definition)}\n`, e);
+
+            this.emit('motionLoadError', group, index, e);
+
+            return undefined;
+        }
+    }
+
+    /**
+     * Loads a file by Assets, which will be released when this manager is destroyed.
+     */
+    private loadAsset<T = any>(url: string): Promise<T> {
+        retainAsset(url);
+        this.assetURLs.push(url);
+
+        return Assets.load<T>(url);
     }
 
     /**
@@ -291,6 +382,9 @@ export abstract class MotionManager<Motion = any, MotionSpec = any> extends Even
 
         this._motionActive = true;
 
+        // will be set in the next update
+        this.motionStartTime = undefined;
+
         this._startMotion(motion!);
 
         return true;
@@ -370,9 +464,26 @@ export abstract class MotionManager<Motion = any, MotionSpec = any> extends Even
             }
         }
 
+        if (this.motionActive) {
+            this.motionStartTime ??= now;
+        }
+
         return this.updateParameters(model, now);
     }
 
+    /**
+     * Emits an event that has been authored in the timeline of current motion.
+     * @param value - The event value.
+     * @param time - Time in seconds since the motion started.
+     * @param customData - The custom data given by the runtime's SDK, if any.
+     * @emits {@link MotionManagerEvents.motionEvent}
+     */
+    protected emitMotionEvent(value: string, time: number, customData?: unknown) {
+        if (this.state.currentGroup === undefined || this.state.currentIndex === undefined) return;
+
+        this.emit('motionEvent', value, this.state.currentGroup, this.state.currentIndex, time, customData);
+    }
+
     /**
      * Move the mouth
      * 
@@ -418,9 +529,15 @@ export abstract class MotionManager<Motion = any, MotionSpec = any> extends Even
         
         this.expressionManager?.destroy();
 
+        // the sounds registered from the model data are freed along with the model data, while the ones
+        // loaded on demand are freed here
+        this.assetURLs.forEach(releaseAsset);
+        this.assetURLs.length = 0;
+
         const self = this as Mutable<Partial<this>>;
         self.definitions = undefined;
         self.motionGroups = undefined;
+        self.motionTasks = undefined;
         
     }
 
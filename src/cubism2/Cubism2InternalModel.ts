@@ -1,5 +1,13 @@
 import { InternalModelOptions } from '@/cubism-common';
-import { CommonHitArea, CommonLayout, InternalModel } from '@/cubism-common/InternalModel';
+import {
+    CommonDrawable,
+    CommonHitArea,
+    CommonLayout,
+    CommonParameter,
+    CommonPart,
+    DrawableMesh,
+    InternalModel,
+} from '@/cubism-common/InternalModel';
 import { Cubism2ModelSettings } from './Cubism2ModelSettings';
 import { Cubism2MotionManager } from './Cubism2MotionManager';
 import { Live2DEyeBlink } from './Live2DEyeBlink';
@@ -53,7 +61,7 @@ export class Cubism2InternalModel extends InternalModel {
     disableCulling = false;
 
     constructor(coreModel: Live2DModelWebGL, settings: Cubism2ModelSettings, options?: InternalModelOptions) {
-        super();
+        super(options);
 
         this.coreModel = coreModel;
         this.settings = settings;
@@ -203,6 +211,162 @@ export class Cubism2InternalModel extends InternalModel {
         return this.coreModel.getTransformedPoints(drawIndex).slice();
     }
 
+    getDrawable(drawIndex: number | string): CommonDrawable {
+        const index = typeof drawIndex === 'string' ? this.coreModel.getDrawDataIndex(drawIndex) : drawIndex;
+
+        const modelContext = this.coreModel.getModelContext();
+        const drawData = modelContext.getDrawData(index);
+        const drawContext = modelContext.getDrawContext(index);
+
+        if (!drawData || !drawContext) throw new TypeError('Unable to find drawable: ' + drawIndex);
+
+        const drawOrder = drawData.getDrawOrder(modelContext, drawContext);
+
+        // the draw data are sorted by their draw orders before drawing, count the ones that come before this one
+        let renderOrder = 0;
+
+        for (let i = 0; i < this.drawDataCount; i++) {
+            const otherData = modelContext.getDrawData(i);
+            const otherContext = modelContext.getDrawContext(i);
+
+            if (i !== index && otherData && otherContext) {
+                const otherOrder = otherData.getDrawOrder(modelContext, otherContext);
+
+                if (otherOrder < drawOrder || (otherOrder === drawOrder && i < index)) {
+                    renderOrder++;
+                }
+            }
+        }
+
+        return {
+            id: drawData.getDrawDataID().id,
+            index,
+            textureIndex: drawData.getTextureNo(),
+            uvs: drawData.getUvMap().slice(),
+            indices: this.coreModel.getIndexArray(index).slice(),
+            opacity: drawData.getOpacity(modelContext, drawContext),
+            renderOrder,
+            visible: drawContext.isAvailable(),
+            doubleSided: !this.coreModel.drawParamWebGL.culling,
+            blendMode: 'normal',
+            masks: (drawData.getClipIDList() ?? [])
+                .map(clipID => this.coreModel.getDrawDataIndex(clipID))
+                .filter(clipIndex => clipIndex !== -1),
+        };
+    }
+
+    protected getDrawableMesh(index: number): DrawableMesh {
+        const modelContext = this.coreModel.getModelContext();
+        const drawData = modelContext.getDrawData(index)!;
+        const drawContext = modelContext.getDrawContext(index)!;
+
+        return {
+            // the transformed points are already in model canvas
+            vertices: this.coreModel.getTransformedPoints(index),
+            indices: this.coreModel.getIndexArray(index),
+            uvs: drawData.getUvMap(),
+            textureIndex: drawData.getTextureNo(),
+            opacity: drawData.getOpacity(modelContext, drawContext),
+            visible: drawContext.isAvailable(),
+        };
+    }
+
+    protected getDrawableRenderOrders(): number[] {
+        const modelContext = this.coreModel.getModelContext();
+        const drawOrders: number[] = [];
+
+        for (let i = 0; i < this.drawDataCount; i++) {
+            const drawData = modelContext.getDrawData(i);
+            const drawContext = modelContext.getDrawContext(i);
+
+            drawOrders.push(drawData && drawContext ? drawData.getDrawOrder(modelContext, drawContext) : 0);
+        }
+
+        // the draw data are sorted by their draw orders before drawing, keeping the ones with equal orders in place
+        const sortedIndices = drawOrders.map((_, i) => i).sort((a, b) => drawOrders[a]! - drawOrders[b]! || a - b);
+        const renderOrders: number[] = [];
+
+        sortedIndices.forEach((index, renderOrder) => renderOrders[index] = renderOrder);
+
+        return renderOrders;
+    }
+
+    getParameters(): CommonParameter[] {
+        return this.coreModel.getModelImpl().getParamDefSet().getParamDefFloatList().map(def => {
+            const id = def.getParamID().id;
+
+            return {
+                id,
+                index: this.coreModel.getParamIndex(id),
+                min: def.getMinValue(),
+                max: def.getMaxValue(),
+                default: def.getDefaultValue(),
+            };
+        });
+    }
+
+    getParameterIndex(id: string): number {
+        const defs = this.coreModel.getModelImpl().getParamDefSet().getParamDefFloatList();
+
+        // getParamIndex() registers an unknown ID as a new parameter, so check the definitions first
+        return defs.some(def => def.getParamID().id === id) ? this.coreModel.getParamIndex(id) : -1;
+    }
+
+    getParameterValue(index: number | string): number {
+        return this.coreModel.getParamFloat(index);
+    }
+
+    setParameterValue(index: number | string, value: number, weight = 1): void {
+        this.coreModel.setParamFloat(index, value, weight);
+    }
+
+    addParameterValue(index: number | string, value: number, weight = 1): void {
+        this.coreModel.addToParamFloat(index, value, weight);
+    }
+
+    multiplyParameterValue(index: number | string, value: number, weight = 1): void {
+        this.coreModel.multParamFloat(index, value, weight);
+    }
+
+    getParts(): CommonPart[] {
+        return this.coreModel.getModelImpl().getPartsDataList().map(partsData => {
+            const id = partsData.getPartsDataID().id;
+
+            return {
+                id,
+                index: this.coreModel.getPartsDataIndex(id),
+                opacity: this.coreModel.getPartsOpacity(id),
+            };
+        });
+    }
+
+    getPartIndex(id: string): number {
+        const partsDataList = this.coreModel.getModelImpl().getPartsDataList();
+
+        // getPartsDataIndex() registers an unknown ID as a new part, so check the definitions first
+        return partsDataList.some(partsData => partsData.getPartsDataID().id === id) ? this.coreModel.getPartsDataIndex(id) : -1;
+    }
+
+    getPartDrawableIndices(index: number | string): number[] {
+        const partsDataList = this.coreModel.getModelImpl().getPartsDataList();
+        const partsData = typeof index === 'string'
+            ? partsDataList.find(partsData => partsData.getPartsDataID().id === index)
+            : partsDataList[index];
+
+        // parts cannot be nested in Cubism 2
+        return (partsData?.getDrawData() ?? [])
+            .map(drawData => this.coreModel.getDrawDataIndex(drawData.getDrawDataID().id))
+            .filter(drawIndex => drawIndex !== -1);
+    }
+
+    getPartOpacity(index: number | string): number {
+        return this.coreModel.getPartsOpacity(index);
+    }
+
+    protected updatePartOpacity(index: number | string, opacity: number): void {
+        this.coreModel.setPartsOpacity(index, opacity);
+    }
+
     update(dt: DOMHighResTimeStamp, now: DOMHighResTimeStamp): void {
         super.update(dt, now);
 
@@ -247,9 +411,15 @@ export class Cubism2InternalModel extends InternalModel {
         }
         
 
+        this.applyParameterOverrides(dt);
+
+        this.emit('beforePhysicsUpdate', dt);
+
         this.physics?.update(now);
         this.pose?.update(dt);
 
+        this.applyPartOpacityOverrides();
+
         this.emit('beforeModelUpdate');
 
         model.update();
@@ -257,12 +427,15 @@ export class Cubism2InternalModel extends InternalModel {
     }
 
     updateFocus() {
-        this.coreModel.addToParamFloat(this.eyeballXParamIndex, this.focusController.x);
-        this.coreModel.addToParamFloat(this.eyeballYParamIndex, this.focusController.y);
-        this.coreModel.addToParamFloat(this.angleXParamIndex, this.focusController.x * 30);
-        this.coreModel.addToParamFloat(this.angleYParamIndex, this.focusController.y * 30);
-        this.coreModel.addToParamFloat(this.angleZParamIndex, this.focusController.x * this.focusController.y * -30);
-        this.coreModel.addToParamFloat(this.bodyAngleXParamIndex, this.focusController.x * 10);
+        const { x, y } = this.focusController;
+        const ranges = this.focusRanges;
+
+        this.coreModel.addToParamFloat(this.eyeballXParamIndex, x * ranges.eyeBallX);
+        this.coreModel.addToParamFloat(this.eyeballYParamIndex, y * ranges.eyeBallY);
+        this.coreModel.addToParamFloat(this.angleXParamIndex, x * ranges.angleX);
+        this.coreModel.addToParamFloat(this.angleYParamIndex, y * ranges.angleY);
+        this.coreModel.addToParamFloat(this.angleZParamIndex, x * y * -ranges.angleZ);
+        this.coreModel.addToParamFloat(this.bodyAngleXParamIndex, x * ranges.bodyAngleX);
     }
 
     updateNaturalMovements(dt: DOMHighResTimeStamp, now: DOMHighResTimeStamp) {
@@ -21,6 +21,11 @@ export class Cubism2MotionManager extends MotionManager<Live2DMotion, Cubism2Spe
 
     expressionManager?: Cubism2ExpressionManager;
 
+    /**
+     * Time in seconds since current motion started, as of the last update.
+     */
+    protected motionTime = 0;
+
     constructor(settings: Cubism2ModelSettings, options?: MotionManagerOptions) {
         super(settings, options);
 
@@ -72,6 +77,9 @@ export class Cubism2MotionManager extends MotionManager<Live2DMotion, Cubism2Spe
     protected _startMotion(motion: Live2DMotion, onFinish?: (motion: Live2DMotion) => void): number {
         motion.onFinishHandler = onFinish;
 
+        // negative so the events at time 0 will be emitted in the first update
+        this.motionTime = -1;
+
         this.queueManager.stopAllMotions();
 
         return this.queueManager.startMotion(motion);
@@ -82,7 +90,37 @@ export class Cubism2MotionManager extends MotionManager<Live2DMotion, Cubism2Spe
     }
 
     protected updateParameters(model: Live2DModelWebGL, now: DOMHighResTimeStamp): boolean {
-        return this.queueManager.updateParam(model);
+        const updated = this.queueManager.updateParam(model);
+
+        this.updateEvents(now);
+
+        return updated;
+    }
+
+    /**
+     * Emits the events defined for current motion, whose time has been reached since last update.
+     * The motion format of Cubism 2 has no events, so they are read from the motion definition
+     * instead, see {@link Cubism2Spec.Motion.events}.
+     * @param now - Current time in milliseconds.
+     */
+    protected updateEvents(now: DOMHighResTimeStamp) {
+        const { currentGroup, currentIndex } = this.state;
+
+        if (currentGroup === undefined || currentIndex === undefined || this.motionStartTime === undefined) return;
+
+        const events = this.definitions[currentGroup]?.[currentIndex]?.events;
+
+        const lastTime = this.motionTime;
+
+        this.motionTime = (now - this.motionStartTime) / 1000;
+
+        if (!events) return;
+
+        for (const event of events) {
+            if (event.time > lastTime && event.time <= this.motionTime) {
+                this.emitMotionEvent(event.value, this.motionTime);
+            }
+        }
     }
 
     destroy() {
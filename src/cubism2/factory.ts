@@ -1,3 +1,4 @@
+import { InternalModelOptions } from '@/cubism-common';
 import { Cubism2InternalModel } from '@/cubism2/Cubism2InternalModel';
 import { Cubism2ModelSettings } from '@/cubism2/Cubism2ModelSettings';
 import { Live2DPhysics } from '@/cubism2/Live2DPhysics';
@@ -39,8 +40,8 @@ RuntimeManager.registerRuntime({
         return model;
     },
 
-    createInternalModel(coreModel: Live2DModelWebGL, settings: Cubism2ModelSettings): Cubism2InternalModel {
-        return new Cubism2InternalModel(coreModel, settings);
+    createInternalModel(coreModel: Live2DModelWebGL, settings: Cubism2ModelSettings, options?: InternalModelOptions): Cubism2InternalModel {
+        return new Cubism2InternalModel(coreModel, settings, options);
     },
 
     createPose(coreModel: Live2DModelWebGL, data: any): Live2DPose {
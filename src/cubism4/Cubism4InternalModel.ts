@@ -1,5 +1,14 @@
 import { InternalModelOptions } from '@/cubism-common';
-import { CommonHitArea, CommonLayout, InternalModel } from '@/cubism-common/InternalModel';
+import {
+    CommonDrawable,
+    CommonHitArea,
+    CommonLayout,
+    CommonParameter,
+    CommonPart,
+    DrawableBlendMode,
+    DrawableMesh,
+    InternalModel,
+} from '@/cubism-common/InternalModel';
 import { Cubism4ModelSettings } from '@/cubism4/Cubism4ModelSettings';
 import { Cubism4MotionManager } from '@/cubism4/Cubism4MotionManager';
 import {
@@ -17,17 +26,79 @@ import { CubismEyeBlink } from '@cubism/effect/cubismeyeblink';
 import { CubismPose } from '@cubism/effect/cubismpose';
 import { CubismMatrix44 } from '@cubism/math/cubismmatrix44';
 import { CubismModel } from '@cubism/model/cubismmodel';
-import { CubismModelUserData } from '@cubism/model/cubismmodeluserdata';
 import { CubismPhysics } from '@cubism/physics/cubismphysics';
+import { CubismBlendMode } from '@cubism/rendering/cubismrenderer';
 import { CubismRenderer_WebGL, CubismShader_WebGL } from '@cubism/rendering/cubismrenderer_webgl';
 import { Matrix } from '@pixi/math';
 import { Mutable } from '../types/helpers';
+import { Cubism4Spec } from '../types/Cubism4Spec';
 
 
 import { clamp } from '@/utils';
 
 const tempMatrix = new CubismMatrix44();
 
+/**
+ * A color whose components range from 0 to 1.
+ */
+export interface RGBAColor {
+    r: number;
+    g: number;
+    b: number;
+
+    /**
+     * Defaults to 1.
+     */
+    a?: number;
+}
+
+/**
+ * The multiply or screen colors that override the ones defined in the model.
+ */
+export interface ColorOverrides {
+    /**
+     * The color applied to all the drawables.
+     */
+    model?: RGBAColor;
+
+    /**
+     * The colors applied to the drawables under the parts, keyed by the parts' indices.
+     */
+    parts: Map<number, RGBAColor>;
+
+    /**
+     * The colors applied to the drawables, keyed by the drawables' indices.
+     */
+    drawables: Map<number, RGBAColor>;
+}
+
+/**
+ * Display information of a parameter. The names fall back to the IDs if not defined in the display info file.
+ */
+export interface ParameterInfo {
+    id: string;
+    name: string;
+    groupId?: string;
+    groupName?: string;
+}
+
+/**
+ * Display information of a parameter group.
+ */
+export interface ParameterGroupInfo {
+    id: string;
+    name: string;
+    groupId?: string;
+}
+
+/**
+ * Display information of a part. The name falls back to the ID if not defined in the display info file.
+ */
+export interface PartInfo {
+    id: string;
+    name: string;
+}
+
 export class Cubism4InternalModel extends InternalModel {
     settings: Cubism4ModelSettings;
     coreModel: CubismModel;
@@ -40,12 +111,28 @@ export class Cubism4InternalModel extends InternalModel {
 
     declare pose?: CubismPose;
     declare physics?: CubismPhysics;
-
-    // what's this for?
-    userData?: CubismModelUserData;
+    declare displayInfo?: Cubism4Spec.DisplayInfo;
+    declare userData?: Cubism4Spec.UserData;
 
     renderer = new CubismRenderer_WebGL();
 
+    /**
+     * The multiply colors set by {@link setDrawableMultiplyColor}, {@link setPartMultiplyColor}
+     * and {@link setModelMultiplyColor}.
+     */
+    multiplyColorOverrides: ColorOverrides = { parts: new Map(), drawables: new Map() };
+
+    /**
+     * The screen colors set by {@link setDrawableScreenColor}, {@link setPartScreenColor}
+     * and {@link setModelScreenColor}.
+     */
+    screenColorOverrides: ColorOverrides = { parts: new Map(), drawables: new Map() };
+
+    /**
+     * Whether the color overrides have changed since they were last applied to the core model.
+     */
+    protected colorOverridesDirty = false;
+
     idParamAngleX = ParamAngleX;
     idParamAngleY = ParamAngleY;
     idParamAngleZ = ParamAngleZ;
@@ -68,7 +155,7 @@ export class Cubism4InternalModel extends InternalModel {
     protected centeringTransform = new Matrix();
 
     constructor(coreModel: CubismModel, settings: Cubism4ModelSettings, options?: InternalModelOptions) {
-        super();
+        super(options);
 
         this.coreModel = coreModel;
         this.settings = settings;
@@ -179,6 +266,359 @@ export class Cubism4InternalModel extends InternalModel {
         return arr;
     }
 
+    protected getDrawableMesh(index: number): DrawableMesh {
+        const drawables = this.coreModel.getModel().drawables;
+
+        return {
+            vertices: drawables.vertexPositions[index],
+            indices: drawables.indices[index],
+            uvs: drawables.vertexUvs[index],
+            textureIndex: drawables.textureIndices[index],
+            opacity: this.coreModel.getDrawableOpacity(index),
+            visible: this.coreModel.getDrawableDynamicFlagIsVisible(index),
+        };
+    }
+
+    protected getDrawableRenderOrders(): Int32Array {
+        return this.coreModel.getModel().drawables.renderOrders;
+    }
+
+    protected toVertexSpace(x: number, y: number, point: { x: number; y: number }): { x: number; y: number } {
+        // the inverse of the transform in getDrawableVertices()
+        point.x = (x - this.originalWidth / 2) / this.pixelsPerUnit;
+        point.y = -(y - this.originalHeight / 2) / this.pixelsPerUnit;
+
+        return point;
+    }
+
+    getDrawable(drawIndex: number | string): CommonDrawable {
+        const index = typeof drawIndex === 'string' ? this.coreModel.getDrawableIndex(drawIndex) : drawIndex;
+        const drawables = this.coreModel.getModel().drawables;
+
+        if (!(index >= 0 && index < drawables.count)) throw new TypeError('Unable to find drawable: ' + drawIndex);
+
+        let blendMode: DrawableBlendMode;
+
+        switch (this.coreModel.getDrawableBlendMode(index)) {
+            case CubismBlendMode.CubismBlendMode_Additive:
+                blendMode = 'additive';
+                break;
+            case CubismBlendMode.CubismBlendMode_Multiplicative:
+                blendMode = 'multiply';
+                break;
+            default:
+                blendMode = 'normal';
+        }
+
+        return {
+            id: drawables.ids[index],
+            index,
+            textureIndex: drawables.textureIndices[index],
+            uvs: drawables.vertexUvs[index].slice(),
+            indices: drawables.indices[index].slice(),
+            opacity: this.coreModel.getDrawableOpacity(index),
+            renderOrder: drawables.renderOrders[index],
+            visible: this.coreModel.getDrawableDynamicFlagIsVisible(index),
+            doubleSided: !this.coreModel.getDrawableCulling(index),
+            blendMode,
+            masks: Array.from(drawables.masks[index].subarray(0, drawables.maskCounts[index])),
+        };
+    }
+
+    getParameters(): CommonParameter[] {
+        const parameters = this.coreModel.getModel().parameters;
+
+        return parameters.ids.map((id: string, index: number) => ({
+            id,
+            index,
+            min: parameters.minimumValues[index],
+            max: parameters.maximumValues[index],
+            default: parameters.defaultValues[index],
+        }));
+    }
+
+    getParameterIndex(id: string): number {
+        // don't use coreModel.getParameterIndex() because it creates a fake parameter for unknown ID
+        return this.coreModel.getModel().parameters.ids.indexOf(id);
+    }
+
+    getParameterValue(index: number | string): number {
+        return typeof index === 'string'
+            ? this.coreModel.getParameterValueById(index)
+            : this.coreModel.getParameterValueByIndex(index);
+    }
+
+    setParameterValue(index: number | string, value: number, weight = 1): void {
+        typeof index === 'string'
+            ? this.coreModel.setParameterValueById(index, value, weight)
+            : this.coreModel.setParameterValueByIndex(index, value, weight);
+    }
+
+    addParameterValue(index: number | string, value: number, weight = 1): void {
+        typeof index === 'string'
+            ? this.coreModel.addParameterValueById(index, value, weight)
+            : this.coreModel.addParameterValueByIndex(index, value, weight);
+    }
+
+    multiplyParameterValue(index: number | string, value: number, weight = 1): void {
+        typeof index === 'string'
+            ? this.coreModel.multiplyParameterValueById(index, value, weight)
+            : this.coreModel.multiplyParameterValueByIndex(index, value, weight);
+    }
+
+    getParts(): CommonPart[] {
+        const parts = this.coreModel.getModel().parts;
+
+        return parts.ids.map((id: string, index: number) => ({
+            id,
+            index,
+            parentIndex: parts.parentIndices[index],
+            opacity: parts.opacities[index],
+        }));
+    }
+
+    getPartIndex(id: string): number {
+        // don't use coreModel.getPartIndex() because it creates a fake part for unknown ID
+        return this.coreModel.getModel().parts.ids.indexOf(id);
+    }
+
+    getPartDrawableIndices(index: number | string): number[] {
+        const model = this.coreModel.getModel();
+        const partIndex = typeof index === 'string' ? this.getPartIndex(index) : index;
+        const drawIndices: number[] = [];
+
+        if (partIndex === -1) {
+            return drawIndices;
+        }
+
+        for (let i = 0; i < model.drawables.count; i++) {
+            for (let p: number = model.drawables.parentPartIndices[i]; p >= 0; p = model.parts.parentIndices[p]) {
+                if (p === partIndex) {
+                    drawIndices.push(i);
+                    break;
+                }
+            }
+        }
+
+        return drawIndices;
+    }
+
+    getPartOpacity(index: number | string): number {
+        return typeof index === 'string'
+            ? this.coreModel.getPartOpacityById(index)
+            : this.coreModel.getPartOpacityByIndex(index);
+    }
+
+    protected updatePartOpacity(index: number | string, opacity: number): void {
+        typeof index === 'string'
+            ? this.coreModel.setPartOpacityById(index, opacity)
+            : this.coreModel.setPartOpacityByIndex(index, opacity);
+    }
+
+    /**
+     * Gets the display information of all the parameters in the model, including those not defined
+     * in the display info file.
+     */
+    getParameterInfo(): ParameterInfo[] {
+        const groups = this.getParameterGroupInfo();
+
+        return this.coreModel.getModel().parameters.ids.map((id: string) => {
+            const def = this.displayInfo?.Parameters?.find(param => param.Id === id);
+            const group = def?.GroupId ? groups.find(group => group.id === def.GroupId) : undefined;
+
+            return {
+                id,
+                name: def?.Name || id,
+                groupId: group?.id,
+                groupName: group?.name,
+            };
+        });
+    }
+
+    /**
+     * Gets the display information of the parameter groups defined in the display info file.
+     */
+    getParameterGroupInfo(): ParameterGroupInfo[] {
+        return this.displayInfo?.ParameterGroups?.map(group => ({
+            id: group.Id,
+            name: group.Name || group.Id,
+            groupId: group.GroupId || undefined,
+        })) ?? [];
+    }
+
+    /**
+     * Gets the display information of all the parts in the model, including those not defined
+     * in the display info file.
+     */
+    getPartInfo(): PartInfo[] {
+        return this.coreModel.getModel().parts.ids.map((id: string) => ({
+            id,
+            name: this.displayInfo?.Parts?.find(part => part.Id === id)?.Name || id,
+        }));
+    }
+
+    /**
+     * Gets the user data attached to a drawable, which is defined for ArtMeshes in the user data file.
+     * @param index - Either the index or the ID of the drawable.
+     * @return The user data, or undefined if none is attached.
+     */
+    getDrawableUserData(index: number | string): string | undefined {
+        const id = typeof index === 'number' ? this.coreModel.getModel().drawables.ids[index] : index;
+
+        return this.userData?.UserData.find(item => item.Target === 'ArtMesh' && item.Id === id)?.Value;
+    }
+
+    /**
+     * Overrides the multiply color of a drawable. Multiply and screen colors require Cubism SDK 4-r.5 or newer.
+     *
+     * When a drawable is affected by multiple overrides, the one set on the drawable has the highest priority,
+     * followed by the one set on its closest ancestor part, and finally the one set on the model.
+     * @param index - Either the index or the ID of the drawable.
+     * @param color - The color, or null to remove the override.
+     * @throws Error when the drawable cannot be found.
+     */
+    setDrawableMultiplyColor(index: number | string, color: RGBAColor | null) {
+        this.setColorOverride(this.multiplyColorOverrides.drawables, this.resolveDrawableIndex(index), color);
+    }
+
+    /**
+     * Overrides the screen color of a drawable. See {@link setDrawableMultiplyColor} for the priority of overrides.
+     * @param index - Either the index or the ID of the drawable.
+     * @param color - The color, or null to remove the override.
+     * @throws Error when the drawable cannot be found.
+     */
+    setDrawableScreenColor(index: number | string, color: RGBAColor | null) {
+        this.setColorOverride(this.screenColorOverrides.drawables, this.resolveDrawableIndex(index), color);
+    }
+
+    /**
+     * Overrides the multiply color of all the drawables under a part, including those under its child parts.
+     * @param index - Either the index or the ID of the part.
+     * @param color - The color, or null to remove the override.
+     * @throws Error when the part cannot be found.
+     */
+    setPartMultiplyColor(index: number | string, color: RGBAColor | null) {
+        this.setColorOverride(this.multiplyColorOverrides.parts, this.resolvePartIndex(index), color);
+    }
+
+    /**
+     * Overrides the screen color of all the drawables under a part, including those under its child parts.
+     * @param index - Either the index or the ID of the part.
+     * @param color - The color, or null to remove the override.
+     * @throws Error when the part cannot be found.
+     */
+    setPartScreenColor(index: number | string, color: RGBAColor | null) {
+        this.setColorOverride(this.screenColorOverrides.parts, this.resolvePartIndex(index), color);
+    }
+
+    /**
+     * Overrides the multiply color of all the drawables.
+     * @param color - The color, or null to remove the override.
+     */
+    setModelMultiplyColor(color: RGBAColor | null) {
+        this.multiplyColorOverrides.model = color ?? undefined;
+        this.colorOverridesDirty = true;
+    }
+
+    /**
+     * Overrides the screen color of all the drawables.
+     * @param color - The color, or null to remove the override.
+     */
+    setModelScreenColor(color: RGBAColor | null) {
+        this.screenColorOverrides.model = color ?? undefined;
+        this.colorOverridesDirty = true;
+    }
+
+    /**
+     * Removes all the multiply and screen color overrides.
+     */
+    clearColorOverrides() {
+        for (const overrides of [this.multiplyColorOverrides, this.screenColorOverrides]) {
+            overrides.model = undefined;
+            overrides.parts.clear();
+            overrides.drawables.clear();
+        }
+
+        this.colorOverridesDirty = true;
+    }
+
+    private resolveDrawableIndex(index: number | string): number {
+        const drawIndex = typeof index === 'string' ? this.coreModel.getDrawableIndex(index) : index;
+
+        if (!(drawIndex >= 0 && drawIndex < this.coreModel.getModel().drawables.count)) {
+            throw new TypeError('Unable to find drawable: ' + index);
+        }
+
+        return drawIndex;
+    }
+
+    private resolvePartIndex(index: number | string): number {
+        const partIndex = typeof index === 'string' ? this.getPartIndex(index) : index;
+
+        if (!(partIndex >= 0 && partIndex < this.coreModel.getModel().parts.count)) {
+            throw new TypeError('Unable to find part: ' + index);
+        }
+
+        return partIndex;
+    }
+
+    private setColorOverride(map: Map<number, RGBAColor>, index: number, color: RGBAColor | null) {
+        if (color) {
+            map.set(index, color);
+        } else {
+            map.delete(index);
+        }
+
+        this.colorOverridesDirty = true;
+    }
+
+    /**
+     * Finds the color override that affects a drawable.
+     */
+    private findColorOverride(overrides: ColorOverrides, drawIndex: number): RGBAColor | undefined {
+        const model = this.coreModel.getModel();
+
+        let color = overrides.drawables.get(drawIndex);
+        let partIndex: number = model.drawables.parentPartIndices[drawIndex];
+
+        while (!color && partIndex >= 0) {
+            color = overrides.parts.get(partIndex);
+            partIndex = model.parts.parentIndices[partIndex];
+        }
+
+        return color ?? overrides.model;
+    }
+
+    /**
+     * Applies the color overrides to the core model, where the renderer reads the colors from.
+     */
+    protected applyColorOverrides() {
+        if (!this.colorOverridesDirty) {
+            return;
+        }
+
+        this.colorOverridesDirty = false;
+
+        const drawableCount = this.coreModel.getModel().drawables.count;
+
+        for (let i = 0; i < drawableCount; i++) {
+            const multiplyColor = this.findColorOverride(this.multiplyColorOverrides, i);
+            const screenColor = this.findColorOverride(this.screenColorOverrides, i);
+
+            if (multiplyColor) {
+                this.coreModel.setMultiplyColorByRGBA(i, multiplyColor.r, multiplyColor.g, multiplyColor.b, multiplyColor.a ?? 1);
+            }
+
+            if (screenColor) {
+                this.coreModel.setScreenColorByRGBA(i, screenColor.r, screenColor.g, screenColor.b, screenColor.a ?? 1);
+            }
+
+            // without the overwrite flags, the colors defined in the model will be used
+            this.coreModel.setOverwriteFlagForDrawableMultiplyColors(i, !!multiplyColor);
+            this.coreModel.setOverwriteFlagForDrawableScreenColors(i, !!screenColor);
+        }
+    }
+
     updateTransform(transform: Matrix) {
         this.drawingMatrix
             .copyFrom(this.centeringTransform)
@@ -233,9 +673,16 @@ export class Cubism4InternalModel extends InternalModel {
             }
         }
 
+        // revert the timestamp to be milliseconds
+        this.applyParameterOverrides(dt * 1000);
+
+        this.emit('beforePhysicsUpdate', dt * 1000);
+
         this.physics?.evaluate(model, dt);
         this.pose?.updateParameters(model, dt);
 
+        this.applyPartOpacityOverrides();
+
         this.emit('beforeModelUpdate');
 
         model.update();
@@ -243,12 +690,15 @@ export class Cubism4InternalModel extends InternalModel {
     }
 
     updateFocus() {
-        this.coreModel.addParameterValueById(this.idParamEyeBallX, this.focusController.x); // -1 ~ 1
-        this.coreModel.addParameterValueById(this.idParamEyeBallY, this.focusController.y);
-        this.coreModel.addParameterValueById(this.idParamAngleX, this.focusController.x * 30); // -30 ~ 30
-        this.coreModel.addParameterValueById(this.idParamAngleY, this.focusController.y * 30);
-        this.coreModel.addParameterValueById(this.idParamAngleZ, this.focusController.x * this.focusController.y * -30);
-        this.coreModel.addParameterValueById(this.idParamBodyAngleX, this.focusController.x * 10); // -10 ~ 10
+        const { x, y } = this.focusController;
+        const ranges = this.focusRanges;
+
+        this.coreModel.addParameterValueById(this.idParamEyeBallX, x * ranges.eyeBallX); // -1 ~ 1 by default
+        this.coreModel.addParameterValueById(this.idParamEyeBallY, y * ranges.eyeBallY);
+        this.coreModel.addParameterValueById(this.idParamAngleX, x * ranges.angleX); // -30 ~ 30 by default
+        this.coreModel.addParameterValueById(this.idParamAngleY, y * ranges.angleY);
+        this.coreModel.addParameterValueById(this.idParamAngleZ, x * y * -ranges.angleZ);
+        this.coreModel.addParameterValueById(this.idParamBodyAngleX, x * ranges.bodyAngleX); // -10 ~ 10 by default
     }
 
     updateFacialEmotion(mouthForm: number) {
@@ -271,6 +721,8 @@ export class Cubism4InternalModel extends InternalModel {
         array[12] = matrix.tx;
         array[13] = matrix.ty;
 
+        this.applyColorOverrides();
+
         this.renderer.setMvpMatrix(tempMatrix);
         this.renderer.setRenderState(gl.getParameter(gl.FRAMEBUFFER_BINDING), this.viewport);
         this.renderer.drawModel();
@@ -11,6 +11,16 @@ export class Cubism4ModelSettings extends ModelSettings {
     moc!: string;
     textures!: string[];
 
+    /**
+     * Relative path of the display info file, typically ends with `.cdi3.json`.
+     */
+    displayInfo?: string;
+
+    /**
+     * Relative path of the user data file, typically ends with `.userdata3.json`.
+     */
+    userData?: string;
+
     static isValidJSON(json: any): json is CubismSpec.ModelJSON {
         return !!json?.FileReferences
             && typeof json.FileReferences.Moc === 'string'
@@ -33,11 +43,22 @@ export class Cubism4ModelSettings extends ModelSettings {
         // CubismModelSettingsJson.call(this, json);
 
         Object.assign(this, new CubismModelSettingsJson(json));
+
+        this.displayInfo = json.FileReferences.DisplayInfo;
+        this.userData = json.FileReferences.UserData;
     }
 
     replaceFiles(replace: (file: string, path: string) => string) {
         super.replaceFiles(replace);
 
+        if (this.displayInfo !== undefined) {
+            this.displayInfo = replace(this.displayInfo, 'displayInfo');
+        }
+
+        if (this.userData !== undefined) {
+            this.userData = replace(this.userData, 'userData');
+        }
+
         if (this.motions) {
             for (const [group, motions] of Object.entries(this.motions)) {
                 for (let i = 0; i < motions.length; i++) {
@@ -26,6 +26,11 @@ export class Cubism4MotionManager extends MotionManager<CubismMotion, CubismSpec
     eyeBlinkIds: string[];
     lipSyncIds: string[];
 
+    /**
+     * Time in seconds since current motion started, updated before the motion is applied in each frame.
+     */
+    protected motionTime = 0;
+
     constructor(settings: Cubism4ModelSettings, options?: MotionManagerOptions) {
         super(settings, options);
 
@@ -44,7 +49,10 @@ export class Cubism4MotionManager extends MotionManager<CubismMotion, CubismSpec
         }
 
         this.queueManager.setEventCallback((caller, eventValue, customData) => {
+            // kept for compatibility, prefer the "motionEvent" event
             this.emit('motion:' + eventValue);
+
+            this.emitMotionEvent(eventValue, this.motionTime, customData);
         });
     }
 
@@ -103,6 +111,9 @@ export class Cubism4MotionManager extends MotionManager<CubismMotion, CubismSpec
     }
 
     protected updateParameters(model: CubismModel, now: DOMHighResTimeStamp): boolean {
+        // `now` is in seconds in Cubism 4
+        this.motionTime = now - (this.motionStartTime ?? now);
+
         return this.queueManager.doUpdateMotion(model, now);
     }
 
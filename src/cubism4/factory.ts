@@ -1,3 +1,4 @@
+import { InternalModelOptions } from '@/cubism-common';
 import { Cubism4InternalModel } from '@/cubism4/Cubism4InternalModel';
 import { Cubism4ModelSettings } from '@/cubism4/Cubism4ModelSettings';
 import { cubism4Ready } from '@/cubism4/setup';
@@ -8,6 +9,22 @@ import { CubismPhysics } from '@cubism/physics/cubismphysics';
 import { CubismSpec } from '@cubism/CubismSpec';
 import { RuntimeManager } from '@/RuntimeManager';
 
+interface MocRef {
+    moc: CubismMoc;
+    data: ArrayBuffer;
+
+    /**
+     * Number of the core models created from this moc.
+     */
+    count: number;
+}
+
+/**
+ * Caches the mocs by their data, so the core models created from the same asset can share one moc
+ * instead of parsing the data again.
+ */
+const mocCache = new WeakMap<ArrayBuffer, MocRef>();
+
 RuntimeManager.registerRuntime({
     version: 4,
 
@@ -32,29 +49,40 @@ RuntimeManager.registerRuntime({
     },
 
     createCoreModel(data: ArrayBuffer): CubismModel {
-        const moc = CubismMoc.create(data);
+        let mocRef = mocCache.get(data);
+
+        if (!mocRef) {
+            mocRef = { moc: CubismMoc.create(data), data, count: 0 };
+            mocCache.set(data, mocRef);
+        }
 
         try {
-            const model = moc.createModel();
+            const model = mocRef.moc.createModel();
 
-            // store the moc instance so we can reference it later
-            (model as any).__moc = moc;
+            mocRef.count++;
+
+            // store the moc reference so we can release it later
+            (model as any).__moc = mocRef;
 
             return model;
         } catch (e) {
-            try {
-                moc.release();
-            } catch (ignored) {
+            if (mocRef.count === 0) {
+                mocCache.delete(data);
+
+                try {
+                    mocRef.moc.release();
+                } catch (ignored) {
+                }
             }
 
             throw e;
         }
     },
 
-    createInternalModel(coreModel: CubismModel, settings: Cubism4ModelSettings): Cubism4InternalModel {
-        const model = new Cubism4InternalModel(coreModel, settings);
+    createInternalModel(coreModel: CubismModel, settings: Cubism4ModelSettings, options?: InternalModelOptions): Cubism4InternalModel {
+        const model = new Cubism4InternalModel(coreModel, settings, options);
 
-        const coreModelWithMoc = coreModel as { __moc?: CubismMoc };
+        const coreModelWithMoc = coreModel as { __moc?: MocRef };
 
         if (coreModelWithMoc.__moc) {
             // transfer the moc to InternalModel, because the coreModel will
@@ -80,5 +108,15 @@ RuntimeManager.registerRuntime({
 });
 
 function releaseMoc(this: Cubism4InternalModel) {
-    ((this as any).__moc as CubismMoc | undefined)?.release();
+    const mocRef = (this as any).__moc as MocRef | undefined;
+
+    if (!mocRef) return;
+
+    mocRef.count--;
+
+    // release the moc when the last model created from it has been destroyed
+    if (mocRef.count <= 0) {
+        mocCache.delete(mocRef.data);
+        mocRef.moc.release();
+    }
 }
@@ -2,9 +2,11 @@ import { ExtensionType } from "@pixi/core";
 import { Loader, LoaderParserPriority, ResolvedAsset, loadTextures } from "@pixi/assets";
 import { path } from "@pixi/utils";
 import { Cubism2Spec } from "@/types/Cubism2Spec";
-import { ICubism2ModelData } from "./types";
+import { ICubism2ModelData, ICubismLoadOptions } from "./types";
 import { loadArrayBuffer as load } from "./loadArrayBuffer";
 import { unload } from "./unload";
+import { shouldPreloadMotions } from "./preload";
+import { trackProgress } from "./progress";
 
 export const cubism2Load = {
     name:"loadCubism2",
@@ -28,17 +30,19 @@ export const cubism2Load = {
 
     async parse(
         asset: Cubism2Spec.ModelJSON,
-        loadAsset: ResolvedAsset,
+        loadAsset: ResolvedAsset<ICubismLoadOptions>,
         loader: Loader
     ): Promise<ICubism2ModelData>{
         const modelData: ICubism2ModelData = {
             textures: [],
+            report: { failures: [] },
         };
         // Image Bitmap fucks Cubism 2 for some reason
         const preferCreateImageBitmap = loadTextures.config.preferCreateImageBitmap;
         loadTextures.config.preferCreateImageBitmap = false;
 
         const promises: Promise<void>[] = [];
+        const loadFile = trackProgress(loader, modelData, loadAsset.data);
         modelData.settings = asset;
         // url required in settings for older models.
         //@ts-ignore
@@ -47,18 +51,14 @@ export const cubism2Load = {
 
         // Load moc
         promises.push(
-            loader.load(
-                path.join(dir, asset.model)
-        ).then(moc => {
+            loadFile(path.join(dir, asset.model), "moc").then(moc => {
             modelData.moc = moc;
         }));
 
         // Load textures
         for(const textureIndex in asset.textures){
             promises.push(
-                loader.load(
-                    path.join(dir, asset.textures[textureIndex])
-                ).then(texture => {
+                loadFile(path.join(dir, asset.textures[textureIndex]), "texture").then(texture => {
                     modelData.textures[textureIndex] = texture;
             }));
         }
@@ -70,19 +70,19 @@ export const cubism2Load = {
             for(const motionName in asset.motions){
                 modelData.motions[motionName] = []
                 modelData.sounds[motionName] = [];
+
+                // the rest will be loaded on demand by the MotionManager
+                if(!shouldPreloadMotions(motionName, "idle", loadAsset.data)) continue;
+
                 for(const motionIndex in asset.motions[motionName]){
                     promises.push(
-                        loader.load(
-                            path.join(dir, asset.motions[motionName][motionIndex].file)
-                        ).then(motion => {
+                        loadFile(path.join(dir, asset.motions[motionName][motionIndex].file), "motion").then(motion => {
                             modelData.motions[motionName][motionIndex] = motion;
                     }));
 
                     if(asset.motions[motionName][motionIndex].sound){
                         promises.push(
-                            loader.load(
-                                path.join(dir, asset.motions[motionName][motionIndex].sound)
-                            ).then(sound => {
+                            loadFile(path.join(dir, asset.motions[motionName][motionIndex].sound), "sound").then(sound => {
                                 modelData.sounds[motionName][motionIndex] = sound;
                         }));
                     }
@@ -92,30 +92,25 @@ export const cubism2Load = {
 
         // Load Physics
         if(asset.physics){
-            promises.push(loader.load(path.join(dir, asset.physics)).then(physics => {
-                modelData.physics = physics;
+            promises.push(loadFile(path.join(dir, asset.physics), "physics").then(physics => {
+                modelData.physics = physics ?? undefined;
             }));
         }
 
-        // Load Expressions
-        if(asset.expressions){
-            modelData.expressions = [];
-            for(const expressionIndex in asset.expressions){
-                promises.push(loader.load(path.join(dir, asset.expressions[expressionIndex].file)).then(expression => {
-                    modelData.expressions![expressionIndex] = expression;
-                }));
-            }
-        }
+        // Expressions will be loaded on demand by the ExpressionManager
 
         // Load Pose
         if(asset.pose){
-            promises.push(loader.load(path.join(dir, asset.pose)).then(pose => {
-                modelData.pose = pose;
+            promises.push(loadFile(path.join(dir, asset.pose), "pose").then(pose => {
+                modelData.pose = pose ?? undefined;
             }));
         }
 
-        await Promise.all(promises);
-        loadTextures.config.preferCreateImageBitmap = preferCreateImageBitmap;
+        try {
+            await Promise.all(promises);
+        } finally {
+            loadTextures.config.preferCreateImageBitmap = preferCreateImageBitmap;
+        }
         return modelData;
     },
 
@@ -2,9 +2,11 @@ import { ExtensionType } from "@pixi/core";
 import { Loader, LoaderParserPriority, ResolvedAsset } from "@pixi/assets";
 import { path } from "@pixi/utils";
 import { Cubism4Spec } from "@/types/Cubism4Spec";
-import { ICubism4ModelData } from "./types";
+import { ICubism4ModelData, ICubismLoadOptions } from "./types";
 import { loadArrayBuffer as load } from "./loadArrayBuffer";
 import { unload } from "./unload";
+import { shouldPreloadMotions } from "./preload";
+import { trackProgress } from "./progress";
 
 export const cubism4Load = {
     name:"loadCubism4",
@@ -28,32 +30,30 @@ export const cubism4Load = {
 
     async parse(
         asset: Cubism4Spec.ModelJSON,
-        loadAsset: ResolvedAsset,
+        loadAsset: ResolvedAsset<ICubismLoadOptions>,
         loader: Loader
         ): Promise<ICubism4ModelData> {
             const modelData: ICubism4ModelData = {
                 textures: [],
+                report: { failures: [] },
             };
             const FR = asset.FileReferences;
             const promises: Promise<void>[] = [];
+            const loadFile = trackProgress(loader, modelData, loadAsset.data);
             modelData.settings = asset;
             // url required in settings for older models.
             asset.url = loadAsset.src;
             const dir = path.dirname(loadAsset.src);
     
             // Load moc
-            promises.push(loader.load(
-                path.join(dir, FR.Moc)
-            ).then(moc => {
+            promises.push(loadFile(path.join(dir, FR.Moc), "moc").then(moc => {
                 modelData.moc = moc;
             }));
     
             // Load textures
             for(const textureIndex in FR.Textures){
                 promises.push(
-                    loader.load(
-                        path.join(dir, FR.Textures[textureIndex])
-                    ).then(texture => {
+                    loadFile(path.join(dir, FR.Textures[textureIndex]), "texture").then(texture => {
                         modelData.textures[textureIndex] = texture;
                 }));
             }
@@ -66,19 +66,19 @@ export const cubism4Load = {
                 for(const motionName in FR.Motions){
                     modelData.motions[motionName] = []
                     modelData.sounds[motionName] = []
+
+                    // the rest will be loaded on demand by the MotionManager
+                    if(!shouldPreloadMotions(motionName, "Idle", loadAsset.data)) continue;
+
                     for(const motionIndex in FR.Motions[motionName]){
                         const data = FR.Motions[motionName][motionIndex]
                         promises.push(
-                            loader.load(
-                                path.join(dir, data.File)
-                            ).then(motion => {
+                            loadFile(path.join(dir, data.File), "motion").then(motion => {
                                 modelData.motions[motionName][motionIndex] = motion;
                         }));
                         if(data.Sound){
                             promises.push(
-                                loader.load(
-                                    path.join(dir, data.Sound)
-                                ).then(sound => {
+                                loadFile(path.join(dir, data.Sound), "sound").then(sound => {
                                     modelData.sounds[motionName][motionIndex] = sound;
                             }));
                         }
@@ -88,25 +88,31 @@ export const cubism4Load = {
     
             // Load Physics
             if(FR.Physics){
-                promises.push(loader.load(path.join(dir, FR.Physics)).then(physics => {
-                    modelData.physics = physics;
+                promises.push(loadFile(path.join(dir, FR.Physics), "physics").then(physics => {
+                    modelData.physics = physics ?? undefined;
                 }));
             }
     
-            // Load Expressions
-            if(FR.Expressions){
-                modelData.expressions = [];
-                for(const expressionIndex in FR.Expressions){
-                    promises.push(loader.load(path.join(dir, FR.Expressions[expressionIndex].File)).then(expression => {
-                        modelData.expressions[expressionIndex] = expression;
-                    }));
-                }
+            // Load Display Info
+            if(FR.DisplayInfo){
+                promises.push(loadFile(path.join(dir, FR.DisplayInfo), "displayInfo").then(displayInfo => {
+                    modelData.displayInfo = displayInfo ?? undefined;
+                }));
             }
-    
+
+            // Load User Data
+            if(FR.UserData){
+                promises.push(loadFile(path.join(dir, FR.UserData), "userData").then(userData => {
+                    modelData.userData = userData ?? undefined;
+                }));
+            }
+
+            // Expressions will be loaded on demand by the ExpressionManager
+
             // Load Pose
             if(FR.Pose){
-                promises.push(loader.load(path.join(dir, FR.Pose)).then(pose => {
-                    modelData.pose = pose;
+                promises.push(loadFile(path.join(dir, FR.Pose), "pose").then(pose => {
+                    modelData.pose = pose ?? undefined;
                 }));
             }
     
@@ -0,0 +1,152 @@
+import { Assets, Loader } from "@pixi/assets";
+import { ModelSettings } from "@/cubism-common/ModelSettings";
+import { RuntimeManager } from "@/RuntimeManager";
+import { ICubismLoadOptions, ICubismModelData } from "./types";
+import { loadModelFiles } from "./loadModelFiles";
+
+/**
+ * Loads a model from the Files picked by the user, for example from `<input webkitdirectory>` or a folder drop,
+ * so a model can be previewed without a server. Each file is located by its `webkitRelativePath`,
+ * or by its name if the relative path is not available.
+ *
+ * ```js
+ * input.addEventListener('change', async () => {
+ *     const model = await Live2DModel.from(input.files);
+ * });
+ * ```
+ *
+ * The Files of a folder drop don't have `webkitRelativePath`, they should be read by {@link getDroppedFiles}
+ * so the files in subfolders can be located.
+ *
+ * ```js
+ * canvas.addEventListener('drop', async e => {
+ *     e.preventDefault();
+ *
+ *     const model = await Live2DModel.from(await FileLoader.getDroppedFiles(e.dataTransfer));
+ * });
+ * ```
+ *
+ * The textures are loaded from object URLs, which will be revoked when the model data is unloaded.
+ * When created by `Live2DModel.from()`, the model data will be unloaded once the model is destroyed.
+ */
+export class FileLoader {
+    /**
+     * The paths of the Files read by {@link getDroppedFiles}.
+     */
+    protected static droppedFilePaths = new WeakMap<File, string>();
+
+    /**
+     * Gets the path of a file, relative to the directory picked or dropped by the user.
+     */
+    static getFilePath(file: File): string {
+        return this.droppedFilePaths.get(file) || file.webkitRelativePath || file.name;
+    }
+
+    /**
+     * Reads the Files of a drop, including the ones in the dropped folders and their subfolders,
+     * and remembers their paths relative to the drop for {@link getFilePath}.
+     *
+     * Must be called in the drop event's listener before any `await`, since the DataTransfer
+     * will be emptied after the listener returns.
+     * @param dataTransfer - The DataTransfer of the drop event.
+     * @return Promise that resolves with the Files.
+     */
+    static async getDroppedFiles(dataTransfer: DataTransfer): Promise<File[]> {
+        const entries = Array.from(dataTransfer.items)
+            .map(item => item.webkitGetAsEntry())
+            .filter((entry): entry is FileSystemEntry => !!entry);
+
+        const files: File[] = [];
+
+        const readEntry = async (entry: FileSystemEntry): Promise<void> => {
+            if (entry.isFile) {
+                const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+
+                // the full path starts with a slash
+                this.droppedFilePaths.set(file, entry.fullPath.replace(/^\//, ''));
+                files.push(file);
+            } else if (entry.isDirectory) {
+                const reader = (entry as FileSystemDirectoryEntry).createReader();
+
+                // the entries are read in batches, until an empty batch
+                for (;;) {
+                    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+
+                    if (!batch.length) {
+                        break;
+                    }
+
+                    await Promise.all(batch.map(readEntry));
+                }
+            }
+        };
+
+        await Promise.all(entries.map(readEntry));
+
+        return files;
+    }
+
+    /**
+     * Creates a ModelSettings from the settings file among given files.
+     * @param files - The Files.
+     * @return Promise that resolves with the ModelSettings, whose URL is the settings file's relative path.
+     * @throws Error if the settings file cannot be found or is not recognized by any runtime.
+     */
+    static async createSettings(files: File[]): Promise<ModelSettings> {
+        const settingsFile = files.find(file => file.name.endsWith('model.json') || file.name.endsWith('model3.json'));
+
+        if (!settingsFile) {
+            throw new Error('Settings file not found');
+        }
+
+        const settingsText = await settingsFile.text();
+
+        if (!settingsText) {
+            throw new Error('Empty settings file: ' + this.getFilePath(settingsFile));
+        }
+
+        const settingsJSON = JSON.parse(settingsText);
+
+        settingsJSON.url = this.getFilePath(settingsFile);
+
+        const runtime = RuntimeManager.findRuntime(settingsJSON);
+
+        if (!runtime) {
+            throw new Error('Unknown settings JSON');
+        }
+
+        return runtime.createModelSettings(settingsJSON);
+    }
+
+    /**
+     * Loads the model data from given files.
+     * @param files - The Files, including the settings file unless `settings` is provided.
+     * @param settings - The ModelSettings, if it's already been created. Its URL must be the settings file's
+     * relative path so the other files can be resolved.
+     * @param loader - The Assets loader.
+     * @param options - The load options, providing the progress callback and the abort signal.
+     * @return Promise that resolves with the model data. If `options.signal` is aborted, rejects with
+     * the signal's reason.
+     * @throws Error if the settings file or any essential file is missing.
+     */
+    static async loadModelData(
+        files: File[] | FileList,
+        settings?: ModelSettings,
+        loader: Loader = Assets.loader,
+        options?: ICubismLoadOptions
+    ): Promise<ICubismModelData> {
+        files = Array.from(files);
+        settings ??= await this.createSettings(files);
+
+        // resolved URLs are encoded, so the paths must be encoded as well to be compared with them
+        const filesByURL: Record<string, File> = {};
+
+        files.forEach(file => filesByURL[encodeURI(this.getFilePath(file))] = file);
+
+        // throws if any essential file is missing, the missing optional files will be recorded
+        // in the report by loadModelFiles()
+        settings.validateFiles(Object.keys(filesByURL));
+
+        return loadModelFiles(settings, filesByURL, loader, options);
+    }
+}
@@ -0,0 +1,208 @@
+import { ExtensionType } from "@pixi/core";
+import { Loader, LoaderParserPriority, ResolvedAsset } from "@pixi/assets";
+import { path } from "@pixi/utils";
+import { ModelSettings } from "@/cubism-common/ModelSettings";
+import { RuntimeManager } from "@/RuntimeManager";
+import { ICubismLoadOptions, ICubismModelData } from "./types";
+import { loadModelFiles } from "./loadModelFiles";
+import { unload } from "./unload";
+
+/**
+ * The reader of a zip file, depends on the zipping library. It's opaque to the loader, which only passes it
+ * between the implemented methods, so the implementations should narrow it to the library's type:
+ *
+ * ```ts
+ * ZipLoader.readText = (reader, path) => (reader as JSZip).file(path)!.async('text');
+ * ```
+ */
+export type ZipReader = unknown;
+
+function notImplemented(method: string): Error {
+    return new Error(
+        `ZipLoader.${method}() is not implemented. To load zip files, implement ZipLoader.zipReader(), `
+        + 'ZipLoader.getFilePaths(), ZipLoader.getFiles() and ZipLoader.readText() with a zipping library first.',
+    );
+}
+
+/**
+ * Provides access to the files in a zip. To avoid depending on a zipping library, the reading methods
+ * are left unimplemented and must be implemented by the user before loading any zip file.
+ *
+ * ```js
+ * ZipLoader.zipReader = (data, url) => JSZip.loadAsync(data);
+ * ZipLoader.readText = (jsZip, path) => jsZip.file(path).async('text');
+ * // ... and so on
+ *
+ * const modelData = await Assets.load('path/to/shizuku.zip');
+ * ```
+ */
+export class ZipLoader {
+    /**
+     * A fake protocol to be prepended to the URL of a zip file whose URL does not end with `.zip`,
+     * for example an object URL.
+     */
+    static ZIP_PROTOCOL = 'zip://';
+
+    /**
+     * Creates a ModelSettings from the settings file in the zip.
+     * @param reader - The zip reader.
+     * @return Promise that resolves with the ModelSettings, whose URL is the settings file's path in the zip.
+     * @throws Error if the settings file cannot be found or is not recognized by any runtime.
+     */
+    static async createSettings(reader: ZipReader): Promise<ModelSettings> {
+        const filePaths = await this.getFilePaths(reader);
+
+        const settingsFilePath = filePaths.find(path => path.endsWith('model.json') || path.endsWith('model3.json'));
+
+        if (!settingsFilePath) {
+            throw new Error('Settings file not found');
+        }
+
+        const settingsText = await this.readText(reader, settingsFilePath);
+
+        if (!settingsText) {
+            throw new Error('Empty settings file: ' + settingsFilePath);
+        }
+
+        const settingsJSON = JSON.parse(settingsText);
+
+        settingsJSON.url = settingsFilePath;
+
+        const runtime = RuntimeManager.findRuntime(settingsJSON);
+
+        if (!runtime) {
+            throw new Error('Unknown settings JSON');
+        }
+
+        return runtime.createModelSettings(settingsJSON);
+    }
+
+    /**
+     * Loads the model data from a zip.
+     * @param data - Content of the zip file.
+     * @param url - URL of the zip file.
+     * @param loader - The Assets loader.
+     * @param options - The load options, providing the progress callback and the abort signal.
+     * @return Promise that resolves with the model data. If `options.signal` is aborted, rejects with
+     * the signal's reason.
+     */
+    static async loadModelData(
+        data: Blob,
+        url: string,
+        loader: Loader,
+        options?: ICubismLoadOptions
+    ): Promise<ICubismModelData> {
+        const reader = await this.zipReader(data, url);
+
+        try {
+            const settings = await this.createSettings(reader);
+            const filePaths = await this.getFilePaths(reader);
+
+            // resolved URLs are encoded, so the paths must be encoded as well to be compared with them
+            const pathsByURL: Record<string, string> = {};
+
+            filePaths.forEach(path => pathsByURL[encodeURI(path)] = path);
+
+            // throws if any essential file is missing, the missing optional files will be recorded
+            // in the report by loadModelFiles()
+            const definedFiles = settings.validateFiles(Object.keys(pathsByURL));
+
+            const resolvedURLs = definedFiles.map(file => settings.resolveURL(file));
+            const files = await this.getFiles(reader, resolvedURLs.map(url => pathsByURL[url]!));
+
+            const fileMap: Record<string, File> = {};
+
+            resolvedURLs.forEach((url, i) => fileMap[url] = files[i]!);
+
+            return await loadModelFiles(settings, fileMap, loader, options);
+        } finally {
+            this.releaseReader(reader);
+        }
+    }
+
+    /**
+     * Creates a zip reader.
+     * @param data - Content of the zip file.
+     * @param url - URL of the zip file.
+     */
+    static zipReader(data: Blob, url: string): Promise<ZipReader> {
+        throw notImplemented('zipReader');
+    }
+
+    /**
+     * Retrieves the paths of all the files in the zip.
+     */
+    static getFilePaths(reader: ZipReader): Promise<string[]> {
+        throw notImplemented('getFilePaths');
+    }
+
+    /**
+     * Extracts specific files from the zip as Files.
+     * @param paths - Paths of the files in the zip.
+     * @return The Files, in the same order as given paths.
+     */
+    static getFiles(reader: ZipReader, paths: string[]): Promise<File[]> {
+        throw notImplemented('getFiles');
+    }
+
+    /**
+     * Reads a file in the zip as text.
+     */
+    static readText(reader: ZipReader, path: string): Promise<string> {
+        throw notImplemented('readText');
+    }
+
+    /**
+     * Releases the zip reader. This is optional.
+     */
+    static releaseReader(reader: ZipReader): void {
+        // this method is optional
+    }
+}
+
+export const zipLoad = {
+    name: "loadZip",
+
+    extension: {
+        type: ExtensionType.LoadParser,
+        priority: LoaderParserPriority.High
+    },
+
+    test(url: string): boolean {
+        return url.startsWith(ZipLoader.ZIP_PROTOCOL) || path.extname(url) === ".zip";
+    },
+
+    /**
+     * Loads a zip from its URL. To load from a Blob (e.g. a File picked by the user), pass it as `data`:
+     *
+     * ```js
+     * Assets.load({ src: 'shizuku.zip', data: file });
+     * ```
+     *
+     * Otherwise, `data` can be the load options, which will be passed to {@link ZipLoader.loadModelData}.
+     */
+    async load(url: string, loadAsset: ResolvedAsset<Blob | ICubismLoadOptions>, loader: Loader): Promise<ICubismModelData> {
+        let data = loadAsset?.data;
+        let options: ICubismLoadOptions | undefined;
+
+        if (!(data instanceof Blob)) {
+            options = data;
+
+            if (url.startsWith(ZipLoader.ZIP_PROTOCOL)) {
+                url = url.slice(ZipLoader.ZIP_PROTOCOL.length);
+            }
+
+            const response = await fetch(url, { signal: options?.signal });
+
+            if (!response.ok) {
+                throw new Error(`Failed to fetch ${url}: ${response.status} ${response.statusText}`);
+            }
+
+            data = await response.blob();
+        }
+
+        return ZipLoader.loadModelData(data, url, loader, options);
+    },
+
+    unload
+}
@@ -0,0 +1,80 @@
+import { Texture } from "@pixi/core";
+import { Sound } from "@pixi/sound";
+
+/**
+ * Checks if an error is caused by aborting the loading. Loadings that are aborted reject with the signal's
+ * reason, which by default is a `DOMException` named "AbortError".
+ */
+export function isAbortError(e: unknown, signal?: AbortSignal): boolean {
+    return (!!signal?.aborted && e === signal.reason) || (e instanceof DOMException && e.name === "AbortError");
+}
+
+/**
+ * Gets the reason of an aborted signal. Falls back to a `DOMException` named "AbortError" where
+ * `signal.reason` is not supported, that is, before Chrome 98.
+ */
+export function getAbortReason(signal: AbortSignal): unknown {
+    return signal.reason ?? new DOMException("The operation was aborted.", "AbortError");
+}
+
+/**
+ * Throws the signal's reason if it has been aborted, the same as `signal.throwIfAborted()`, which
+ * is not supported before Chrome 100.
+ */
+export function throwIfAborted(signal: AbortSignal | undefined) {
+    if (signal?.aborted) {
+        throw getAbortReason(signal);
+    }
+}
+
+/**
+ * Makes a loading abortable. The returned promise rejects with the signal's reason as soon as the signal
+ * is aborted, and the data that arrives after that will be released.
+ * @param promise - The loading promise.
+ * @param signal - The signal.
+ * @param release - Function to release the data.
+ * @return The abortable promise.
+ */
+export function abortable<T>(promise: Promise<T>, signal: AbortSignal | undefined, release: (data: T) => void): Promise<T> {
+    if (!signal) {
+        return promise;
+    }
+
+    return new Promise<T>((resolve, reject) => {
+        const onAbort = () => reject(getAbortReason(signal));
+
+        if (signal.aborted) {
+            onAbort();
+        } else {
+            signal.addEventListener("abort", onAbort, { once: true });
+        }
+
+        promise.then(
+            data => {
+                signal.removeEventListener("abort", onAbort);
+
+                if (signal.aborted) {
+                    release(data);
+                    reject(getAbortReason(signal));
+                } else {
+                    resolve(data);
+                }
+            },
+            e => {
+                signal.removeEventListener("abort", onAbort);
+                reject(signal.aborted ? getAbortReason(signal) : e);
+            },
+        );
+    });
+}
+
+/**
+ * Releases a loaded file in the same way as `unload()` does.
+ */
+export function releaseFile(data: unknown) {
+    if (data instanceof Texture) {
+        data.destroy(true);
+    } else if (data instanceof Sound) {
+        data.destroy();
+    }
+}
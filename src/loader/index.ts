@@ -1,3 +1,8 @@
 export * from "./Cubism4Loader";
 export * from "./Cubism2Loader";
+export * from "./ZipLoader";
+export * from "./FileLoader";
+export * from "./progress";
+export * from "./abort";
+export * from "./shared";
 export * from "./types";
\ No newline at end of file
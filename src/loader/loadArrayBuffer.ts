@@ -1,5 +1,13 @@
-export async function loadArrayBuffer(url: string): Promise<ArrayBuffer>{
-    const response = await fetch(url);
+import { ResolvedAsset } from "@pixi/assets";
+import { ICubismLoadOptions } from "./types";
+
+export async function loadArrayBuffer(url: string, loadAsset?: ResolvedAsset<ICubismLoadOptions>): Promise<ArrayBuffer>{
+    const response = await fetch(url, { signal: loadAsset?.data?.signal });
+
+    // fetch() only rejects on network errors, so the error responses must be checked here,
+    // otherwise their bodies, such as a 404 page, would be taken as the file
+    if(!response.ok) throw new Error(`Failed to fetch ${url}: ${response.status} ${response.statusText}`);
+
     const arrayBuffer = await response.arrayBuffer();
     return arrayBuffer;
 }
\ No newline at end of file
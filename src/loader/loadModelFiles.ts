@@ -0,0 +1,178 @@
+import { ModelSettings } from "@/cubism-common/ModelSettings";
+import { RuntimeManager } from "@/RuntimeManager";
+import { Loader, loadTextures } from "@pixi/assets";
+import { Texture } from "@pixi/core";
+import { Sound } from "@pixi/sound";
+import { abortable, throwIfAborted } from "./abort";
+import { CubismFileCategory, ESSENTIAL_CATEGORIES, recordFailure } from "./progress";
+import { ICubism4ModelData, ICubismLoadOptions, ICubismModelData } from "./types";
+import { recordLoadedFile, unload } from "./unload";
+
+/**
+ * Loads the resource files of a model from given Files, into a model data object
+ * in the same shape as what the Cubism loaders produce.
+ *
+ * Optional files that are missing or fail to load will be recorded in the model data's report,
+ * and their places will be filled with `null`.
+ *
+ * The textures are loaded from object URLs, which are listed in the model data's `objectURLs`.
+ *
+ * When `options.signal` is aborted, rejects with the signal's reason, and the model data will be unloaded
+ * once the files being read have been loaded.
+ * @param settings - The ModelSettings. Each defined file will be resolved by {@link ModelSettings.resolveURL}
+ * and then looked up in `files`.
+ * @param files - The Files keyed by their resolved paths.
+ * @param loader - The Assets loader, used to load the textures.
+ * @param options - The load options, providing the progress callback and the abort signal.
+ * @return Promise that resolves with the model data.
+ * @throws Error if any essential file is missing or fails to load.
+ */
+export async function loadModelFiles(
+    settings: ModelSettings,
+    files: Record<string, File>,
+    loader: Loader,
+    options?: ICubismLoadOptions
+): Promise<ICubismModelData> {
+    const onProgress = options?.onProgress;
+    const signal = options?.signal;
+
+    throwIfAborted(signal);
+
+    const modelData: ICubismModelData = {
+        textures: [],
+        report: { failures: [] },
+        objectURLs: [],
+    };
+    modelData.settings = settings.json as any;
+
+    // Image Bitmap fucks Cubism 2 for some reason
+    const isCubism2 = RuntimeManager.findRuntime(settings)?.version === 2;
+    const preferCreateImageBitmap = loadTextures.config.preferCreateImageBitmap;
+    if (isCubism2) loadTextures.config.preferCreateImageBitmap = false;
+
+    const promises: Promise<void>[] = [];
+
+    let total = 0;
+    let loaded = 0;
+    let failed = 0;
+    let loadedBytes = 0;
+
+    // walk through the defined files, where the property path tells what the file is
+    settings.replaceFiles((file, propertyPath) => {
+        const url = settings.resolveURL(file);
+        const category = getCategory(propertyPath);
+
+        total++;
+
+        promises.push((async () => {
+            let content: any = null;
+
+            try {
+                const data = files[url];
+
+                if (!data) {
+                    throw new Error(`File not found: ${url}`);
+                }
+
+                content = await readFile(data, propertyPath, loader, modelData);
+
+                loaded++;
+                loadedBytes += data.size;
+            } catch (e) {
+                if (ESSENTIAL_CATEGORIES.includes(category)) {
+                    throw e;
+                }
+
+                failed++;
+                recordFailure(modelData.report!, url, category, e);
+            }
+
+            putContent(modelData, propertyPath, content);
+
+            if (!signal?.aborted) {
+                onProgress?.({ total, loaded, failed, loadedBytes, file: url, category });
+            }
+        })());
+
+        return file;
+    });
+
+    try {
+        // the files are read locally and can't be stopped, so they're unloaded after all of them have been read
+        await abortable(Promise.all(promises), signal, () => unload(modelData));
+    } finally {
+        loadTextures.config.preferCreateImageBitmap = preferCreateImageBitmap;
+    }
+
+    return modelData;
+}
+
+function getCategory(propertyPath: string): CubismFileCategory {
+    if (propertyPath.startsWith("textures")) return "texture";
+    if (propertyPath.startsWith("expressions")) return "expression";
+    if (propertyPath.startsWith("motions")) return /\.sound$/i.test(propertyPath) ? "sound" : "motion";
+
+    return propertyPath as "moc" | "physics" | "pose" | "displayInfo" | "userData";
+}
+
+async function readFile(file: File, propertyPath: string, loader: Loader, modelData: ICubismModelData): Promise<any> {
+    if (propertyPath.startsWith("textures")) {
+        const objectURL = URL.createObjectURL(file);
+
+        // the object URL will be revoked when the model is destroyed or the model data is unloaded
+        modelData.objectURLs!.push(objectURL);
+
+        const texture = await loader.load<Texture>({ src: objectURL, loadParser: "loadTextures" });
+
+        recordLoadedFile(modelData, loader, objectURL, texture, true);
+
+        return texture;
+    }
+
+    if (/\.sound$/i.test(propertyPath)) {
+        const source = await file.arrayBuffer();
+
+        return new Promise<Sound>((resolve, reject) => Sound.from({
+            source,
+            preload: true,
+            loaded(err, sound) {
+                err ? reject(err) : resolve(sound);
+            }
+        }));
+    }
+
+    // json files in Cubism 4, and also the json files of expressions, pose and physics in Cubism 2
+    if (file.name.endsWith(".json")) {
+        return JSON.parse(await file.text());
+    }
+
+    return file.arrayBuffer();
+}
+
+function putContent(modelData: ICubismModelData, propertyPath: string, content: any) {
+    let match: RegExpMatchArray | null;
+
+    if (propertyPath === "moc" || propertyPath === "physics" || propertyPath === "pose") {
+        modelData[propertyPath] = content ?? undefined;
+    } else if (propertyPath === "displayInfo" || propertyPath === "userData") {
+        (modelData as ICubism4ModelData)[propertyPath] = content ?? undefined;
+    } else if ((match = propertyPath.match(/^textures\[(\d+)]$/))) {
+        modelData.textures[+match[1]] = content;
+    } else if ((match = propertyPath.match(/^expressions\[(\d+)]\./))) {
+        modelData.expressions ??= [];
+        modelData.expressions[+match[1]] = content;
+    } else if ((match = propertyPath.match(/^motions\.(.*)\[(\d+)]\.(file|sound)$/i))) {
+        const [, group, index, type] = match;
+
+        modelData.motions ??= {};
+        modelData.sounds ??= {};
+        modelData.motions[group] ??= [];
+        modelData.sounds[group] ??= [];
+
+        if (type.toLowerCase() === "file") {
+            modelData.motions[group][+index] = content;
+        } else {
+            modelData.sounds[group][+index] = content;
+        }
+    }
+}
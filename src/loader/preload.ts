@@ -0,0 +1,24 @@
+import { MotionPreloadStrategy } from "@/cubism-common/MotionManager";
+import { ICubismLoadOptions } from "./types";
+
+/**
+ * Checks if the motions in a group should be preloaded by the loader. Motions that are not preloaded
+ * will be loaded by the MotionManager on demand.
+ * @param group - The motion group.
+ * @param defaultIdleGroup - The idle motion group of the Cubism version, used when the options don't specify one.
+ * @param options - The load options.
+ * @return True if the group should be preloaded.
+ */
+export function shouldPreloadMotions(group: string, defaultIdleGroup: string, options?: ICubismLoadOptions): boolean {
+    switch (options?.motionPreload) {
+        case MotionPreloadStrategy.NONE:
+            return false;
+
+        case MotionPreloadStrategy.ALL:
+            return true;
+
+        case MotionPreloadStrategy.IDLE:
+        default:
+            return group === (options?.idleMotionGroup ?? defaultIdleGroup);
+    }
+}
@@ -0,0 +1,159 @@
+import { Loader } from "@pixi/assets";
+import { path } from "@pixi/utils";
+import { logger } from "@/utils";
+import { ICubismLoadOptions, ICubismLoadReport, ICubismModelData } from "./types";
+import { abortable, releaseFile, throwIfAborted } from "./abort";
+import { recordLoadedFile, releaseLoadedFiles } from "./unload";
+
+const TAG = "CubismLoader";
+
+/**
+ * Category of a model's resource file.
+ */
+export type CubismFileCategory = "moc" | "texture" | "motion" | "sound" | "physics" | "pose" | "expression" | "displayInfo" | "userData";
+
+/**
+ * Categories of the essential files, without which the model cannot be created. Files of other categories
+ * are optional and will not fail the loading.
+ */
+export const ESSENTIAL_CATEGORIES: readonly CubismFileCategory[] = ["moc", "texture"];
+
+/**
+ * Progress of loading a model, reported each time a file has been loaded.
+ */
+export interface ICubismLoadProgress {
+    /**
+     * Number of the files to load.
+     */
+    total: number;
+
+    /**
+     * Number of the files that have been loaded.
+     */
+    loaded: number;
+
+    /**
+     * Number of the optional files that have failed to load.
+     */
+    failed: number;
+
+    /**
+     * Size in bytes of the files that have been loaded, counting only the files whose sizes are known.
+     */
+    loadedBytes: number;
+
+    /**
+     * URL of the file that has just been loaded, or has failed to load.
+     */
+    file: string;
+
+    /**
+     * Category of the file.
+     */
+    category: CubismFileCategory;
+}
+
+/**
+ * Creates a function that loads a file with the loader, and reports the progress when the file has been loaded.
+ * All the files should be requested before any of them has been loaded, so that the `total` can be final
+ * from the first report.
+ *
+ * Failures of optional files will not be thrown, instead they'll be recorded in the report,
+ * and the function will resolve with `null`.
+ *
+ * When `options.signal` is aborted, all the pending loadings will reject with the signal's reason,
+ * and the files that have been loaded will be released, except the ones that are still used by others.
+ *
+ * The loaded files are recorded in the model data, they'll be removed from the loader's cache
+ * when the model data is unloaded, and destroyed when no other model data uses them.
+ * @param loader - The Assets loader.
+ * @param modelData - The model data to record failures and the loaded files in.
+ * @param options - The load options, providing the progress callback and the abort signal.
+ * @return The loading function.
+ */
+export function trackProgress(
+    loader: Loader,
+    modelData: ICubismModelData,
+    options?: ICubismLoadOptions
+): <T = any>(url: string, category: CubismFileCategory) => Promise<T | null> {
+    const onProgress = options?.onProgress;
+    const signal = options?.signal;
+
+    let total = 0;
+    let loaded = 0;
+    let failed = 0;
+    let loadedBytes = 0;
+
+    return async <T>(url: string, category: CubismFileCategory) => {
+        throwIfAborted(signal);
+
+        total++;
+
+        let data: T | null = null;
+
+        const cached = path.toAbsolute(url) in loader.promiseCache;
+
+        try {
+            data = await abortable(
+                // the signal will be used by loadArrayBuffer() to abort the fetching
+                loader.load<T>(signal ? { src: url, data: { signal } } : url),
+                signal,
+                data => {
+                    if (!cached) {
+                        // remove the file from the loader's cache, otherwise it'd be reused after being destroyed
+                        delete loader.promiseCache[path.toAbsolute(url)];
+
+                        releaseFile(data);
+                    }
+                }
+            );
+
+            recordLoadedFile(modelData, loader, url, data, !cached);
+
+            loaded++;
+            loadedBytes += getByteLength(url, data);
+        } catch (e) {
+            if (signal?.aborted) {
+                // every pending loading rejects on abort, the first one releases the loaded files
+                releaseLoadedFiles(modelData);
+
+                throw e;
+            }
+
+            if (ESSENTIAL_CATEGORIES.includes(category)) {
+                throw e;
+            }
+
+            failed++;
+            recordFailure(modelData.report, url, category, e);
+        }
+
+        onProgress?.({ total, loaded, failed, loadedBytes, file: url, category });
+
+        return data;
+    };
+}
+
+/**
+ * Records a failure of an optional file in the report.
+ */
+export function recordFailure(report: ICubismLoadReport, file: string, category: CubismFileCategory, error: unknown) {
+    report.failures.push({ file, category, error });
+
+    logger.warn(TAG, `Failed to load optional ${category} file "${file}"\n`, error);
+}
+
+/**
+ * Gets the size of a loaded file, from either the data itself or the Resource Timing API.
+ * @return The size in bytes, or 0 if unknown.
+ */
+function getByteLength(url: string, data: unknown): number {
+    if (data instanceof ArrayBuffer) {
+        return data.byteLength;
+    }
+
+    const entries = performance.getEntriesByName(path.toAbsolute(url), "resource") as PerformanceResourceTiming[];
+
+    // the size will be 0 for cross-origin requests without the Timing-Allow-Origin header
+    return entries[entries.length - 1]?.decodedBodySize ?? 0;
+}
@@ -0,0 +1,109 @@
+import { Assets } from "@pixi/assets";
+import { logger } from "@/utils";
+import { abortable, throwIfAborted } from "./abort";
+import { ICubismLoadProgress } from "./progress";
+import { ICubismLoadOptions, ICubismModelData } from "./types";
+
+const TAG = "CubismLoader";
+
+interface SharedLoading {
+    promise: Promise<ICubismModelData>;
+
+    /**
+     * The callers that are waiting for the loading and have not aborted.
+     */
+    callers: Set<ICubismLoadOptions>;
+
+    controller: AbortController;
+}
+
+// the pending loadings by their URLs
+const sharedLoadings = new Map<string, SharedLoading>();
+
+/**
+ * Loads the model data with `Assets.load()`, which shares a single loading between all the callers
+ * of the same URL. Unlike passing the options to `Assets.load()`, where only the first caller's options take effect,
+ * each caller here has its own `onProgress` and `signal`:
+ *
+ * - Aborting a caller's signal rejects only that caller, the shared loading will be aborted only when all
+ *   the callers have aborted.
+ * - The progress is reported to every caller. A caller that joins a pending loading will only be reported
+ *   the progress from then on.
+ *
+ * The other options, like `motionPreload`, are taken from the caller that starts the loading.
+ * @param url - URL of the settings file or the zip file.
+ * @param options - The load options.
+ * @return Promise that resolves with the model data. If `options.signal` is aborted, rejects with
+ * the signal's reason.
+ */
+export async function loadSharedModelData(url: string, options?: ICubismLoadOptions): Promise<ICubismModelData> {
+    const signal = options?.signal;
+
+    throwIfAborted(signal);
+
+    let loading = sharedLoadings.get(url);
+
+    // a loading that has been aborted cannot be joined, wait for it to be removed from the cache and start a new one
+    if (loading?.controller.signal.aborted) {
+        await loading.promise.catch(() => {});
+
+        return loadSharedModelData(url, options);
+    }
+
+    if (!loading) {
+        const controller = new AbortController();
+        const callers = new Set<ICubismLoadOptions>();
+
+        const promise = Assets.load<ICubismModelData>({
+            src: url,
+            data: {
+                ...options,
+                signal: controller.signal,
+                onProgress: (progress: ICubismLoadProgress) => callers.forEach(caller => caller.onProgress?.(progress)),
+            },
+        });
+
+        const newLoading: SharedLoading = { promise, callers, controller };
+
+        loading = newLoading;
+        sharedLoadings.set(url, newLoading);
+
+        promise
+            .then(
+                () => {
+                    // the loading has finished right before being aborted, nobody will use the model data
+                    if (controller.signal.aborted) {
+                        Assets.unload(url).catch(e => logger.warn(TAG, `Failed to unload "${url}"\n`, e));
+                    }
+                },
+                () => {},
+            )
+            .then(() => {
+                if (sharedLoadings.get(url) === newLoading) sharedLoadings.delete(url);
+            });
+    }
+
+    const { callers, controller } = loading;
+
+    // each caller is a distinct entry, even if the same options are passed twice
+    const caller: ICubismLoadOptions = { ...options };
+
+    callers.add(caller);
+
+    const onAbort = () => {
+        callers.delete(caller);
+
+        if (!callers.size) controller.abort();
+    };
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    try {
+        // the model data that arrives after aborting is either used by the other callers,
+        // or unloaded when the shared loading is aborted
+        return await abortable(loading.promise, signal, () => {});
+    } finally {
+        signal?.removeEventListener("abort", onAbort);
+        callers.delete(caller);
+    }
+}
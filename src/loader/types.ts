@@ -1,7 +1,58 @@
 import { Cubism2Spec } from "@/types/Cubism2Spec";
 import { Cubism4Spec } from "@/types/Cubism4Spec";
+import { MotionManagerOptions } from "@/cubism-common/MotionManager";
 import { Texture } from "@pixi/core";
 import { Sound } from "@pixi/sound";
+import { CubismFileCategory, ICubismLoadProgress } from "./progress";
+
+/**
+ * Options for loading a model, passed as the `data` of the asset.
+ *
+ * ```js
+ * Assets.load({
+ *     src: 'shizuku.model.json',
+ *     data: {
+ *         motionPreload: MotionPreloadStrategy.NONE,
+ *         onProgress: ({ loaded, total }) => console.log(`${loaded}/${total}`),
+ *     },
+ * });
+ * ```
+ */
+export interface ICubismLoadOptions extends MotionManagerOptions {
+    /**
+     * Called each time a resource file of the model has been loaded.
+     */
+    onProgress?: (progress: ICubismLoadProgress) => void;
+
+    /**
+     * Signal to abort the loading. Once aborted, the loading rejects with the signal's reason, which by default
+     * is a `DOMException` named "AbortError", see {@link isAbortError}. The files that have been loaded
+     * will be released.
+     *
+     * Note that `Assets.load()` wraps the errors of loadings, so it's better to check `signal.aborted` instead
+     * of the error itself when loading with it. {@link Live2DModel.from} does not have this problem.
+     *
+     * Also, `Assets.load()` shares one loading between the concurrent callers of the same URL, so aborting
+     * it will reject all of them. {@link Live2DModel.from} lets each caller abort on its own,
+     * see {@link loadSharedModelData}.
+     */
+    signal?: AbortSignal;
+}
+
+/**
+ * Report of a model's loading.
+ */
+export interface ICubismLoadReport {
+    /**
+     * The optional files that have failed to load. The places of them in the model data
+     * will be filled with `null`.
+     */
+    failures: {
+        file: string;
+        category: CubismFileCategory;
+        error: unknown;
+    }[];
+}
 
 export interface ICubism4ModelData {
     settings?: Cubism4Spec.ModelJSON
@@ -11,7 +62,11 @@ export interface ICubism4ModelData {
     physics?: Cubism4Spec.Physics;
     pose?: Cubism4Spec.Pose;
     expressions?: Cubism4Spec.Expressions[];
+    displayInfo?: Cubism4Spec.DisplayInfo;
+    userData?: Cubism4Spec.UserData;
     sounds?: Record<string, Sound[]>;
+    report?: ICubismLoadReport;
+    objectURLs?: string[];
 }
 
 export interface ICubism2ModelData {
@@ -23,6 +78,8 @@ export interface ICubism2ModelData {
     pose?: Cubism2Spec.PoseJSON;
     expressions?: Cubism2Spec.ExpressionJSON[];
     sounds?: Record<string, Sound[]>;
+    report?: ICubismLoadReport;
+    objectURLs?: string[];
 }
 
 export type ICubismModelData = ICubism2ModelData | ICubism4ModelData;
\ No newline at end of file
@@ -1,11 +1,225 @@
+import { Assets, Loader } from "@pixi/assets";
+import { path } from "@pixi/utils";
+import { logger } from "@/utils";
+import { releaseFile } from "./abort";
 import { ICubismModelData } from "./types";
 
+const TAG = "CubismLoader";
+
+interface ModelDataRefs {
+    /**
+     * Number of the live models that use the model data.
+     */
+    count: number;
+
+    /**
+     * True if the model data has been unloaded while still being used, it'll then be freed
+     * once the last model has released it.
+     */
+    unloaded: boolean;
+}
+
+const refsMap = new WeakMap<ICubismModelData, ModelDataRefs>();
+
+interface AssetRefs {
+    /**
+     * Number of the retainers of the asset.
+     */
+    count: number;
+
+    /**
+     * False if the asset had been loaded by someone else before it was retained, in which case it'll not be
+     * unloaded by the retainers.
+     */
+    owned: boolean;
+}
+
+const assetRefsMap = new Map<string, AssetRefs>();
+
+interface LoadedFile {
+    loader: Loader;
+    url: string;
+    data: unknown;
+
+    /**
+     * The loader's cache entry of the file, so a newer entry of the same URL won't be removed.
+     */
+    entry: unknown;
+}
+
+/**
+ * The files that have been loaded by the loaders for the model data.
+ */
+const loadedFilesMap = new WeakMap<ICubismModelData, LoadedFile[]>();
+
+/**
+ * Number of the model data that use each loaded file. A file can be shared by multiple model data
+ * when it's taken from the loader's cache, or when multiple settings files refer to it.
+ */
+const fileRefsMap = new WeakMap<object, number>();
+
+/**
+ * Records a file that has been loaded by the loader for the model data. The file will be removed from the cache
+ * when the model data is unloaded, and will be destroyed when no other model data uses it.
+ *
+ * A file taken from the cache is recorded only if it's been loaded for another model data, otherwise it's
+ * loaded by someone else and should be left untouched.
+ * @param asset - The model data.
+ * @param loader - The loader that loaded the file.
+ * @param url - The file's URL.
+ * @param data - The loaded data.
+ * @param created - True if the file is loaded by this loading, rather than taken from the cache.
+ */
+export function recordLoadedFile(asset: ICubismModelData, loader: Loader, url: string, data: unknown, created: boolean){
+    const isObject = !!data && typeof data === "object";
+
+    if(!created && !(isObject && fileRefsMap.has(data))) return;
+
+    const file: LoadedFile = { loader, url, data, entry: loader.promiseCache[path.toAbsolute(url)] };
+    const loadedFiles = loadedFilesMap.get(asset);
+
+    if(loadedFiles){
+        loadedFiles.push(file);
+    } else {
+        loadedFilesMap.set(asset, [file]);
+    }
+
+    if(isObject){
+        fileRefsMap.set(data, (fileRefsMap.get(data) ?? 0) + 1);
+    }
+}
+
+/**
+ * Removes the model data's files from the loaders' cache, so they won't be shared by later loadings.
+ */
+function uncacheFiles(asset: ICubismModelData){
+    for(const file of loadedFilesMap.get(asset) ?? []){
+        const key = path.toAbsolute(file.url);
+
+        if(file.loader.promiseCache[key] === file.entry) delete file.loader.promiseCache[key];
+    }
+}
+
+/**
+ * Releases the files loaded for the model data, each of which will be destroyed if no other model data uses it.
+ */
+export function releaseLoadedFiles(asset: ICubismModelData){
+    // remove the files from the cache before destroying them, so the loader won't complain about
+    // the textures being destroyed instead of being unloaded
+    uncacheFiles(asset);
+
+    for(const { data } of loadedFilesMap.get(asset) ?? []){
+        if(!data || typeof data !== "object") continue;
+
+        const count = (fileRefsMap.get(data) ?? 1) - 1;
+
+        if(count > 0){
+            fileRefsMap.set(data, count);
+        } else {
+            fileRefsMap.delete(data);
+            releaseFile(data);
+        }
+    }
+
+    loadedFilesMap.delete(asset);
+}
+
+/**
+ * Retains the model data for a model that uses it, so the shared resources, like the base textures
+ * and the sounds, won't be freed by {@link unload} until the model releases it.
+ */
+export function retainModelData(asset: ICubismModelData){
+    const refs = refsMap.get(asset);
+
+    if(refs){
+        refs.count++;
+    } else {
+        refsMap.set(asset, { count: 1, unloaded: false });
+    }
+}
+
+/**
+ * Releases the model data when a model that uses it is destroyed. If the model data has been unloaded
+ * and this is the last model, the resources will be freed.
+ */
+export function releaseModelData(asset: ICubismModelData){
+    const refs = refsMap.get(asset);
+
+    if(!refs) return;
+
+    refs.count--;
+
+    if(refs.count <= 0){
+        refsMap.delete(asset);
+
+        if(refs.unloaded) free(asset);
+    }
+}
+
+/**
+ * Unloads the model data. The resources will be freed immediately if no model is using the model data,
+ * otherwise they'll be freed when the last model is destroyed.
+ */
 export function unload(asset: ICubismModelData){
-    for(const texture of asset.textures) texture.destroy(true);
+    const refs = refsMap.get(asset);
+
+    if(refs){
+        // stop sharing the files with later loadings right away, the files will still be used by the living models
+        uncacheFiles(asset);
+
+        refs.unloaded = true;
+        return;
+    }
+
+    free(asset);
+}
+
+/**
+ * Retains a file that's loaded by `Assets.load()` on demand, such as a motion loaded when it's started
+ * for the first time. Should be called right before loading the file.
+ */
+export function retainAsset(url: string){
+    const refs = assetRefsMap.get(url);
+
+    if(refs){
+        refs.count++;
+    } else {
+        assetRefsMap.set(url, { count: 1, owned: !(path.toAbsolute(url) in Assets.loader.promiseCache) });
+    }
+}
+
+/**
+ * Releases a file retained by {@link retainAsset}. The file will be unloaded from Assets after the last retainer
+ * has released it, unless it's not owned by the retainers.
+ */
+export function releaseAsset(url: string){
+    const refs = assetRefsMap.get(url);
+
+    if(!refs) return;
+
+    refs.count--;
+
+    if(refs.count <= 0){
+        assetRefsMap.delete(url);
+
+        if(refs.owned){
+            Assets.unload(url).catch(e => logger.warn(TAG, `Failed to unload "${url}"\n`, e));
+        }
+    }
+}
+
+function free(asset: ICubismModelData){
+    // files that are not loaded by a loader, like the sounds read by FileLoader, belong to this model data only
+    for(const file of [...asset.textures, ...Object.values(asset.sounds).flat()]){
+        if(file && !fileRefsMap.has(file)) releaseFile(file);
+    }
+
+    // the loaded files are destroyed unless they're shared with other model data
+    releaseLoadedFiles(asset);
+
     asset.textures.length = 0;
 
     for(const key in asset.sounds){
-        for(const sound of asset.sounds[key]) sound.destroy();
         asset.sounds[key].length = 0;
         delete asset.sounds[key];
     }
@@ -17,6 +231,11 @@ export function unload(asset: ICubismModelData){
 
     if(asset.expressions) asset.expressions.length = 0;
 
+    if(asset.objectURLs){
+        for(const objectURL of asset.objectURLs) URL.revokeObjectURL(objectURL);
+        asset.objectURLs.length = 0;
+    }
+
     delete asset.moc;
     delete asset.textures;
     delete asset.motions;
@@ -25,5 +244,5 @@ export function unload(asset: ICubismModelData){
     delete asset.expressions;
     delete asset.sounds;
     delete asset.settings;
-    console.log(asset)
+    delete asset.objectURLs;
 }
\ No newline at end of file
@@ -39,6 +39,14 @@ export namespace Cubism2Spec {
         /** Sound file. */
         sound?: string;
 
+        /**
+         * Events in the motion's timeline, each with its time in seconds.
+         *
+         * This is an extension of pixi-live2d-display, not a part of the Cubism 2 format, it's supported because
+         * the `*.mtn` format can't carry events. Other Cubism 2 players will ignore it.
+         */
+        events?: Array<{ time: number; value: string }>;
+
         /** Motion fade-in timeout. */
         fade_in?: number;
 
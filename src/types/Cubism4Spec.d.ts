@@ -6,7 +6,7 @@ export namespace Cubism4Spec {
             Textures: string[];
             Pose?: string;
             Physics?: string;
-            DisplayInfo: string;
+            DisplayInfo?: string;
             Expressions?: Array<{Name: string; File: string}>;
             Motions?: {
                 [name: string]: Array<{File: string, FadeInTime?: number, FadeOutTime?: number, Sound?: string;}>;
@@ -18,6 +18,21 @@ export namespace Cubism4Spec {
         // possibly required for older models?
         url?: string
     }
+    export interface DisplayInfo {
+        Version: number;
+        Parameters?: Array<{Id: string; GroupId: string; Name: string}>;
+        ParameterGroups?: Array<{Id: string; GroupId: string; Name: string}>;
+        Parts?: Array<{Id: string; Name: string}>;
+        CombinedParameters?: string[][];
+    }
+    export interface UserData {
+        Version: number;
+        Meta: {
+            UserDataCount: number;
+            TotalUserDataSize: number;
+        };
+        UserData: Array<{Target: string; Id: string; Value: string}>;
+    }
     export interface Motion {
         Version: string;
         Meta: object;
@@ -1,4 +1,5 @@
 import { InternalModel, ModelSettings } from '@/cubism-common';
+import { DoubleTapGesture, LongPressGesture, PetGesture, SwipeGesture } from '@/GestureRecognizer';
 import { Texture } from '@pixi/core';
 import { JSONObject } from './helpers';
 
@@ -9,6 +10,59 @@ export interface Live2DModelEvents {
      */
     hit: [string[]];
 
+    /**
+     * @event - The pointer has entered one or more hit areas.
+     * @param - The names of the entered hit areas.
+     */
+    hitAreaEnter: [string[]];
+
+    /**
+     * @event - The pointer has left one or more hit areas.
+     * @param - The names of the left hit areas.
+     */
+    hitAreaLeave: [string[]];
+
+    /**
+     * @event - The pointer has moved over one or more hit areas.
+     * @param - The names of all the hit areas under the pointer.
+     * @param - The pointer's x position in world space.
+     * @param - The pointer's y position in world space.
+     */
+    hitAreaMove: [string[], number, number];
+
+    /**
+     * @event - One or more hit areas are double tapped.
+     * @param - The names of the hit areas.
+     * @param - The gesture data.
+     * @see {@link GestureRecognizer}
+     */
+    doubleTap: [string[], DoubleTapGesture];
+
+    /**
+     * @event - One or more hit areas are long pressed.
+     * @param - The names of the hit areas.
+     * @param - The gesture data.
+     * @see {@link GestureRecognizer}
+     */
+    longPress: [string[], LongPressGesture];
+
+    /**
+     * @event - A swipe has started from one or more hit areas.
+     * @param - The names of the hit areas where the swipe started.
+     * @param - The gesture data.
+     * @see {@link GestureRecognizer}
+     */
+    swipe: [string[], SwipeGesture];
+
+    /**
+     * @event - One or more hit areas are being petted, that is, stroked back and forth. Emitted on each
+     * stroke once the number of strokes reaches {@link GestureOptions.petStrokes}.
+     * @param - The names of the hit areas.
+     * @param - The gesture data.
+     * @see {@link GestureRecognizer}
+     */
+    pet: [string[], PetGesture];
+
     /**
      * @event - The settings JSON has been loaded.
      * @param - The settings JSON object.
@@ -45,29 +99,64 @@ export interface Live2DModelEvents {
      */
     physicsLoaded: [unknown];
 
+    /**
+     * @event - An event authored in the timeline of current motion has been fired.
+     * @param - The event value.
+     * @param - The motion group.
+     * @param - Index in the motion group.
+     * @param - Time in seconds since the motion started.
+     * @param - The custom data given by the Cubism 4 SDK, undefined on Cubism 2.
+     * @see {@link MotionManagerEvents.motionEvent}
+     */
+    motionEvent: [string, string, number, number, unknown];
+
     /**
      * @event - All the essential resources have been loaded.
      */
     ready: [];
 
     /**
-     * @event - All the resources have been loaded.
+     * @event - All the resources that come with the model data have been loaded. The motions and expressions
+     * that are not preloaded will be loaded on demand.
      */
     load: [];
+
+    /**
+     * @event - An error occurs when creating the model. {@link Live2DModel.ready} rejects with the same error.
+     * @param - The error.
+     */
+    error: [unknown];
 }
 
 export interface MotionManagerEvents<Motion = any> {
     /**
-     * @event - A Motion has been loaded.
+     * @event - A Motion has been loaded. The motions preloaded in the model data are emitted synchronously
+     * when the model is being created, right after {@link Live2DModelEvents.modelLoaded}, and the others are
+     * emitted when loaded on demand.
+     * @param - The motion group.
+     * @param - Index in the motion group.
      * @param - The Motion instance, varies in different Cubism version.
      */
-    motionLoaded: [Motion];
+    motionLoaded: [string, number, Motion];
 
     /**
-     * @event - An error occurs when loading a Motion.
+     * @event - An error occurs when loading a Motion on demand. The failures of preloading are not emitted,
+     * instead they're recorded in the report of the model data, `modelData.report`.
+     * @param - The motion group.
+     * @param - Index in the motion group.
      * @param - The error.
      */
-    motionLoadError: [unknown];
+    motionLoadError: [string, number, unknown];
+
+    /**
+     * @event - An event authored in the timeline of current motion has been fired.
+     * @param - The event value.
+     * @param - The motion group.
+     * @param - Index in the motion group.
+     * @param - Time in seconds since the motion started.
+     * @param - The custom data given by the Cubism 4 SDK, undefined on Cubism 2.
+     */
+    motionEvent: [string, string, number, number, unknown];
 
     /**
      * @event - Before destroyed.
@@ -77,16 +166,18 @@ export interface MotionManagerEvents<Motion = any> {
 
 export interface ExpressionManagerEvents<Expression = any> {
     /**
-     * @event - An Expression has been loaded.
+     * @event - An Expression has been loaded on demand.
+     * @param - Index of the expression in definitions.
      * @param - The Expression instance, varies in different Cubism version.
      */
-    expressionLoaded: [Expression];
+    expressionLoaded: [number, Expression];
 
     /**
-     * @event - An error occurs when loading an Expression.
+     * @event - An error occurs when loading an Expression on demand.
+     * @param - Index of the expression in definitions.
      * @param - The error.
      */
-    expressionLoadError: [unknown];
+    expressionLoadError: [number, unknown];
 
     /**
      * @event - Before destroyed.
@@ -105,6 +196,12 @@ export interface InternalModelEvents {
      */
     afterMotionUpdate: [];
 
+    /**
+     * @event - Before the physics are updated, after the other parameter updates.
+     * @param - Elapsed time in milliseconds from last frame.
+     */
+    beforePhysicsUpdate: [DOMHighResTimeStamp];
+
     /**
      * @event - Before the model is updated with its parameters applied.
      */
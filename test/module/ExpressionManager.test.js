@@ -1,6 +1,7 @@
 import { config } from '@/config';
 import { Cubism4ModelSettings } from '@/cubism4/Cubism4ModelSettings';
 import '@/factory';
+import { Assets } from '@pixi/assets';
 import { expect } from 'chai';
 import sinon from 'sinon';
 import { Cubism4ExpressionManager } from '../../src';
@@ -40,4 +41,57 @@ describe('ExpressionManager', function () {
         expect(updated).to.be.true;
         expect(TEST_MODEL4.coreModel.getParameterValueById(expParamId)).to.closeTo(expParamValue, epsilon);
     });
+
+    it('should load expressions on demand', async function() {
+        const expManager = new Cubism4ExpressionManager(new Cubism4ModelSettings(TEST_MODEL4.json));
+        const loadedListener = sinon.spy();
+        const errorListener = sinon.spy();
+
+        expManager.on('expressionLoaded', loadedListener);
+        expManager.on('expressionLoadError', errorListener);
+
+        expect(expManager.expressions[0]).to.be.undefined;
+
+        await expManager.setExpression(0);
+
+        expect(expManager.expressions[0]).to.exist;
+        expect(loadedListener).to.be.calledOnceWith(0, expManager.expressions[0]);
+
+        const originalLogLevel = config.logLevel;
+        config.logLevel = config.LOG_LEVEL_NONE;
+
+        expManager.definitions[1] = { Name: 'nonexistent', File: 'nonexistent.exp3.json' };
+
+        try {
+            expect(await expManager.setExpression(1)).to.be.false;
+            expect(expManager.expressions[1]).to.be.null;
+            expect(errorListener).to.be.calledOnceWith(1);
+        } finally {
+            config.logLevel = originalLogLevel;
+        }
+    });
+
+    it('should unload the expressions loaded on demand when destroyed', async function() {
+        const expManager = new Cubism4ExpressionManager(new Cubism4ModelSettings(TEST_MODEL4.json));
+        const expressionURL = expManager.settings.resolveURL(expManager.definitions[0].File);
+        const onDemandURL = expManager.settings.resolveURL('on-demand.exp3.json');
+
+        const load = Assets.load;
+
+        // load the on-demand expression from an existing file, so it can be told apart from other tests
+        const loadStub = sinon.stub(Assets, 'load').callsFake(url => load.call(Assets, url === onDemandURL ? expressionURL : url));
+        const unloadStub = sinon.stub(Assets, 'unload').resolves();
+
+        try {
+            expManager.definitions[0] = { Name: 'on-demand', File: 'on-demand.exp3.json' };
+
+            expect(await expManager.loadExpression(0)).to.exist;
+
+            expManager.destroy();
+            expect(unloadStub).to.be.calledOnceWith(onDemandURL);
+        } finally {
+            loadStub.restore();
+            unloadStub.restore();
+        }
+    });
 });
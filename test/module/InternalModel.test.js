@@ -1,7 +1,8 @@
 import { Cubism2InternalModel, Cubism2ModelSettings } from '@/cubism2';
 import { Cubism4InternalModel, Cubism4ModelSettings } from '@/cubism4';
 import { TEST_MODEL, TEST_MODEL4 } from '../env';
-import { MotionPreloadStrategy } from '@/cubism-common';
+import { HitTestMode, MotionPreloadStrategy } from '@/cubism-common';
+import { RuntimeManager } from '@/RuntimeManager';
 
 describe('InternalModel', function() {
     function createModel2(def) {
@@ -29,16 +30,19 @@ describe('InternalModel', function() {
 
             const beforeMotionUpdate = sinon.spy();
             const afterMotionUpdate = sinon.spy();
+            const beforePhysicsUpdate = sinon.spy();
             const beforeModelUpdate = sinon.spy();
 
             model.on('beforeMotionUpdate', beforeMotionUpdate);
             model.on('afterMotionUpdate', afterMotionUpdate);
+            model.on('beforePhysicsUpdate', beforePhysicsUpdate);
             model.on('beforeModelUpdate', beforeModelUpdate);
 
             model.update(1000 / 60, performance.now());
 
             expect(beforeMotionUpdate).to.be.called;
             expect(afterMotionUpdate).to.be.called;
+            expect(beforePhysicsUpdate.firstCall.args[0]).to.be.closeTo(1000 / 60, 1e-6);
             expect(beforeModelUpdate).to.be.called;
         }
     });
@@ -71,4 +75,360 @@ describe('InternalModel', function() {
             expect(model.getDrawableVertices(0).length).to.be.greaterThan(0);
         }
     });
+
+    it('should provide information of drawables', function() {
+        for (const model of [createModel2(TEST_MODEL), createModel4(TEST_MODEL4)]) {
+            model.update(16, 16);
+
+            const drawables = model.getDrawables();
+
+            expect(drawables.length).to.equal(model.getDrawableIDs().length);
+
+            const drawable = model.getDrawable(drawables[1].id);
+
+            expect(drawable).to.deep.equal(drawables[1]);
+            expect(drawable.uvs.length).to.equal(model.getDrawableVertices(drawable.index).length);
+            expect(drawable.indices.length % 3).to.equal(0);
+            expect(drawable.opacity).to.be.within(0, 1);
+            expect(drawable.blendMode).to.be.oneOf(['normal', 'additive', 'multiply']);
+
+            const renderOrders = drawables.map(drawable => drawable.renderOrder).sort((a, b) => a - b);
+
+            expect(renderOrders).to.deep.equal(drawables.map((_, i) => i));
+
+            for (const { masks } of drawables) {
+                for (const mask of masks) {
+                    expect(mask).to.be.within(0, drawables.length - 1);
+                }
+            }
+
+            expect(() => model.getDrawable('nonexistent')).to.throw();
+        }
+    });
+
+    it('should share the moc between the core models created from the same data', function() {
+        const runtime = RuntimeManager.findRuntime(TEST_MODEL4.json);
+        const settings = new Cubism4ModelSettings(TEST_MODEL4.json);
+        const options = { motionPreload: MotionPreloadStrategy.NONE };
+
+        const model1 = runtime.createInternalModel(runtime.createCoreModel(TEST_MODEL4.modelData), settings, options);
+        const model2 = runtime.createInternalModel(runtime.createCoreModel(TEST_MODEL4.modelData), settings, options);
+
+        const moc = model1.__moc.moc;
+        const release = sinon.spy(moc, 'release');
+
+        expect(model2.__moc.moc).to.equal(moc);
+
+        model1.destroy();
+        expect(release).to.not.be.called;
+
+        model2.destroy();
+        expect(release).to.be.calledOnce;
+    });
+
+    it('should provide display info of parameters and parts', function() {
+        const model4 = createModel4(TEST_MODEL4);
+
+        const paramID = model4.coreModel.getModel().parameters.ids[0];
+        const partID = model4.coreModel.getModel().parts.ids[0];
+
+        model4.displayInfo = {
+            Version: 3,
+            Parameters: [{ Id: paramID, GroupId: 'ParamGroupFace', Name: 'Angle' }],
+            ParameterGroups: [{ Id: 'ParamGroupFace', GroupId: '', Name: 'Face' }],
+            Parts: [{ Id: partID, Name: 'Core' }],
+        };
+
+        const paramInfo = model4.getParameterInfo();
+
+        expect(paramInfo).to.have.lengthOf(model4.coreModel.getParameterCount());
+        expect(paramInfo[0]).to.eql({ id: paramID, name: 'Angle', groupId: 'ParamGroupFace', groupName: 'Face' });
+        expect(paramInfo[1].name).to.equal(paramInfo[1].id);
+
+        expect(model4.getParameterGroupInfo()).to.eql([{ id: 'ParamGroupFace', name: 'Face', groupId: undefined }]);
+        expect(model4.getPartInfo()[0]).to.eql({ id: partID, name: 'Core' });
+    });
+
+    it('should provide user data of drawables', function() {
+        const model4 = createModel4(TEST_MODEL4);
+
+        const drawableIDs = model4.getDrawableIDs();
+
+        model4.userData = {
+            Version: 3,
+            Meta: { UserDataCount: 1, TotalUserDataSize: 13 },
+            UserData: [{ Target: 'ArtMesh', Id: drawableIDs[1], Value: 'clickable:hat' }],
+        };
+
+        expect(model4.getDrawableUserData(drawableIDs[1])).to.equal('clickable:hat');
+        expect(model4.getDrawableUserData(1)).to.equal('clickable:hat');
+        expect(model4.getDrawableUserData(0)).to.be.undefined;
+    });
+
+    it('should provide access to parameters', function() {
+        for (const model of [createModel2(TEST_MODEL), createModel4(TEST_MODEL4)]) {
+            const parameters = model.getParameters();
+
+            expect(parameters.length).to.be.greaterThan(10);
+
+            const { id, index, min, max } = parameters[1];
+
+            expect(model.getParameterIndex(id)).to.equal(index);
+            expect(model.getParameterIndex('nonexistent')).to.equal(-1);
+            expect(min).to.be.at.most(max);
+
+            model.setParameterValue(id, max);
+            expect(model.getParameterValue(index)).to.be.closeTo(max, 1e-6);
+
+            model.setParameterValue(index, min);
+            expect(model.getParameterValue(id)).to.be.closeTo(min, 1e-6);
+
+            model.setParameterValue(id, 0);
+            model.addParameterValue(id, max, 0.5);
+            expect(model.getParameterValue(id)).to.be.closeTo(max * 0.5, 1e-6);
+
+            model.multiplyParameterValue(index, 2);
+            expect(model.getParameterValue(id)).to.be.closeTo(max, 1e-6);
+        }
+    });
+
+    it('should keep parameter overrides across updates', function() {
+        const canvas = document.createElement('canvas');
+        const gl = canvas.getContext('webgl');
+
+        for (const model of [createModel2(TEST_MODEL), createModel4(TEST_MODEL4)]) {
+            model.updateWebGLContext(gl, 0);
+
+            const { id, max } = model.getParameters()[1];
+
+            let value;
+
+            // read the value right before the model is updated, after which the parameters will be restored
+            model.on('beforeModelUpdate', () => value = model.getParameterValue(id));
+
+            model.setParameterOverride(id, max);
+            model.update(16, 16);
+            model.update(16, 32);
+            expect(value).to.be.closeTo(max, 1e-6);
+
+            model.setParameterOverride(id, max, { fadeInTime: 100 });
+            model.update(16, 48);
+            expect(value).to.be.closeTo(max, 1e-6, 'replacing an override should not fade in again');
+
+            model.removeParameterOverride(id, 100);
+            model.update(50, 98);
+            expect(model.parameterOverrides.has(id)).to.be.true;
+
+            model.update(60, 158);
+            expect(model.parameterOverrides.has(id)).to.be.false;
+        }
+    });
+
+    it('should apply parameter overrides before the physics', function() {
+        const canvas = document.createElement('canvas');
+        const gl = canvas.getContext('webgl');
+
+        for (const model of [createModel2(TEST_MODEL), createModel4(TEST_MODEL4)]) {
+            model.updateWebGLContext(gl, 0);
+
+            const { id, max } = model.getParameters()[1];
+
+            let value;
+
+            const readValue = () => value = model.getParameterValue(id);
+
+            model.physics = { update: readValue, evaluate: readValue };
+
+            model.setParameterOverride(id, max);
+            model.update(16, 16);
+            expect(value).to.be.closeTo(max, 1e-6);
+
+            model.physics = undefined;
+        }
+    });
+
+    it('should provide access to parts and keep their opacities across updates', function() {
+        const canvas = document.createElement('canvas');
+        const gl = canvas.getContext('webgl');
+
+        for (const model of [createModel2(TEST_MODEL), createModel4(TEST_MODEL4)]) {
+            model.updateWebGLContext(gl, 0);
+
+            const parts = model.getParts();
+
+            expect(parts.length).to.be.greaterThan(1);
+
+            const { id, index, opacity } = parts[1];
+
+            expect(model.getPartIndex(id)).to.equal(index);
+            expect(model.getPartIndex('nonexistent')).to.equal(-1);
+            expect(model.getPartOpacity(id)).to.be.closeTo(opacity, 1e-6);
+
+            let value;
+
+            model.on('beforeModelUpdate', () => value = model.getPartOpacity(index));
+
+            model.setPartOpacity(id, 0.5);
+            expect(model.getPartOpacity(index)).to.be.closeTo(0.5, 1e-6);
+
+            model.update(16, 16);
+            model.update(16, 32);
+            expect(value).to.be.closeTo(0.5, 1e-6);
+
+            model.resetPartOpacity(id);
+            expect(model.partOpacityOverrides.size).to.equal(0);
+        }
+    });
+
+    it('should override multiply and screen colors in Cubism 4', function() {
+        const model = createModel4(TEST_MODEL4);
+        const { drawables, parts } = model.coreModel.getModel();
+        const { parentPartIndices } = drawables;
+
+        const drawIndex = parentPartIndices.findIndex(partIndex => partIndex >= 0);
+
+        // find a drawable that's not under the part of the first one
+        const otherDrawIndex = parentPartIndices.findIndex(partIndex => {
+            for (; partIndex >= 0; partIndex = parts.parentIndices[partIndex]) {
+                if (partIndex === parentPartIndices[drawIndex]) return false;
+            }
+
+            return true;
+        });
+
+        model.setModelMultiplyColor({ r: 1, g: 0, b: 0 });
+        model.setPartMultiplyColor(parentPartIndices[drawIndex], { r: 0, g: 1, b: 0 });
+        model.setDrawableScreenColor(drawIndex, { r: 0, g: 0, b: 1 });
+
+        // called before drawing
+        model.applyColorOverrides();
+
+        expect(model.coreModel.getMultiplyColor(drawIndex)).to.include({ R: 0, G: 1, B: 0 });
+        expect(model.coreModel.getMultiplyColor(otherDrawIndex)).to.include({ R: 1, G: 0, B: 0 });
+        expect(model.coreModel.getScreenColor(drawIndex)).to.include({ R: 0, G: 0, B: 1 });
+
+        model.clearColorOverrides();
+        model.applyColorOverrides();
+
+        expect(model.coreModel.getOverwriteFlagForDrawableMultiplyColors(drawIndex)).to.be.false;
+        expect(model.coreModel.getOverwriteFlagForDrawableScreenColors(drawIndex)).to.be.false;
+
+        expect(() => model.setDrawableMultiplyColor('nonexistent', null)).to.throw();
+    });
+
+    it('should hit-test against the triangles and texture alpha', function() {
+        for (const model of [createModel2(TEST_MODEL), createModel4(TEST_MODEL4)]) {
+            model.update(16, 16);
+
+            const hitArea = Object.values(model.hitAreas)[0];
+            const vertices = model.getDrawableVertices(hitArea.index);
+            const { indices } = model.getDrawable(hitArea.index);
+
+            // centroid of the first triangle
+            const x = (vertices[indices[0] * 2] + vertices[indices[1] * 2] + vertices[indices[2] * 2]) / 3;
+            const y = (vertices[indices[0] * 2 + 1] + vertices[indices[1] * 2 + 1] + vertices[indices[2] * 2 + 1]) / 3;
+
+            model.hitTestMode = HitTestMode.MESH;
+            expect(model.isHit(hitArea.name, x, y)).to.be.true;
+            expect(model.isHit(hitArea.name, -1e5, -1e5)).to.be.false;
+
+            // find a point inside the bounding box but outside the mesh
+            const bounds = model.getDrawableBounds(hitArea.index);
+            let emptyPoint;
+
+            for (let i = 0; i <= 20 && !emptyPoint; i++) {
+                for (let j = 0; j <= 20 && !emptyPoint; j++) {
+                    const px = bounds.x + bounds.width * i / 20;
+                    const py = bounds.y + bounds.height * j / 20;
+
+                    if (!model.isHit(hitArea.name, px, py)) {
+                        emptyPoint = [px, py];
+                    }
+                }
+            }
+
+            if (emptyPoint) {
+                model.hitTestMode = HitTestMode.BOUNDS;
+                expect(model.isHit(hitArea.name, ...emptyPoint)).to.be.true;
+            }
+
+            model.hitTestMode = HitTestMode.PIXEL;
+
+            model.textureAlphaReader = () => 0;
+            expect(model.isHit(hitArea.name, x, y)).to.be.false;
+
+            model.textureAlphaReader = () => 1;
+            expect(model.isHit(hitArea.name, x, y)).to.be.true;
+        }
+    });
+
+    it('should hit-test on drawables and custom hit areas', function() {
+        for (const model of [createModel2(TEST_MODEL), createModel4(TEST_MODEL4)]) {
+            model.update(16, 16);
+            model.hitTestMode = HitTestMode.MESH;
+
+            const drawable = model.getDrawables().find(drawable => drawable.visible && drawable.opacity > 0);
+            const vertices = model.getDrawableVertices(drawable.index);
+            const [i0, i1, i2] = drawable.indices;
+            const x = (vertices[i0 * 2] + vertices[i1 * 2] + vertices[i2 * 2]) / 3;
+            const y = (vertices[i0 * 2 + 1] + vertices[i1 * 2 + 1] + vertices[i2 * 2 + 1]) / 3;
+
+            const hitDrawables = model.hitTestDrawables(x, y);
+
+            expect(hitDrawables).to.include(drawable.id);
+
+            const renderOrders = hitDrawables.map(id => model.getDrawable(id).renderOrder);
+
+            expect(renderOrders).to.deep.equal(renderOrders.slice().sort((a, b) => b - a));
+
+            model.addHitArea('drawable', { drawable: drawable.id });
+            model.addHitArea('polygon', { polygon: [x - 1, y - 1, x + 1, y - 1, x + 1, y + 1, x - 1, y + 1] });
+
+            expect(model.hitTest(x, y)).to.include.members(['drawable', 'polygon']);
+            expect(model.hitTest(x + 2, y + 2)).to.not.include('polygon');
+
+            const part = model.getParts().find(part => model.getPartDrawableIndices(part.index).includes(drawable.index));
+
+            if (part && part.opacity > 0) {
+                model.addHitArea('part', { part: part.id });
+                expect(model.isHit('part', x, y)).to.be.true;
+            }
+
+            model.removeHitArea('polygon');
+            expect(model.hitTest(x, y)).to.not.include('polygon');
+
+            expect(() => model.addHitArea('nonexistent', { drawable: 'nonexistent' })).to.throw();
+        }
+    });
+
+    it('should apply focus ranges', function() {
+        const model2 = new Cubism2InternalModel(
+            TEST_MODEL.coreModel,
+            new Cubism2ModelSettings(TEST_MODEL.json),
+            { motionPreload: MotionPreloadStrategy.NONE, focusRanges: { angleX: 10 } },
+        );
+        const model4 = new Cubism4InternalModel(
+            TEST_MODEL4.coreModel,
+            new Cubism4ModelSettings(TEST_MODEL4.json),
+            { motionPreload: MotionPreloadStrategy.NONE, focusRanges: { angleX: 10 } },
+        );
+
+        for (const model of [model2, model4]) {
+            expect(model.focusRanges).to.include({ angleX: 10, angleY: 30 });
+
+            model.focusController.focus(1, 0, true);
+        }
+
+        const addToParamFloat = sinon.spy(model2.coreModel, 'addToParamFloat');
+
+        model2.updateFocus();
+        expect(addToParamFloat).to.be.calledWith(model2.angleXParamIndex, 10);
+        addToParamFloat.restore();
+
+        const addParameterValueById = sinon.spy(model4.coreModel, 'addParameterValueById');
+
+        model4.updateFocus();
+        expect(addParameterValueById).to.be.calledWith(model4.idParamAngleX, 10);
+        addParameterValueById.restore();
+    });
 });
@@ -1,7 +1,9 @@
-import { InternalModel, Live2DModel, LOGICAL_HEIGHT, LOGICAL_WIDTH } from '@';
+import { FocusMode, InternalModel, Live2DModel, LOGICAL_HEIGHT, LOGICAL_WIDTH, MotionPreloadStrategy } from '@';
 import { HitAreaFrames } from '@/tools/HitAreaFrames';
+import { RuntimeManager } from '@/RuntimeManager';
 import { Application } from '@pixi/app';
-import { BatchRenderer, Renderer } from '@pixi/core';
+import { Assets } from '@pixi/assets';
+import { BatchRenderer, Renderer, Texture } from '@pixi/core';
 import { InteractionManager } from '@pixi/interaction';
 import { Ticker, TickerPlugin } from '@pixi/ticker';
 import { merge } from 'lodash-es';
@@ -119,6 +121,159 @@ describe('Live2DModel', async function() {
                 expect(bounds.width).to.be.closeTo(runtime.nonScaledWidth * 2, 0.001);
                 expect(bounds.height).to.be.closeTo(runtime.nonScaledHeight * 3, 0.001);
             });
+
+            it('should focus proportionally', () => {
+                const model = runtime.model1;
+                const { originalWidth, originalHeight, localTransform, focusController } = model.internalModel;
+
+                // converts a position in model canvas to world space
+                const toWorld = (x, y) => model.toGlobal(localTransform.apply({ x, y }));
+
+                const near = toWorld(originalWidth * 0.6, originalHeight / 2);
+                const far = toWorld(originalWidth, originalHeight / 2);
+
+                model.focus(near.x, near.y, true);
+                expect(focusController.targetX).to.be.closeTo(1, 1e-6);
+
+                model.focusMode = FocusMode.PROPORTIONAL;
+
+                model.focus(near.x, near.y, true);
+                expect(focusController.targetX).to.be.closeTo(0.2, 1e-6);
+
+                model.focus(far.x, far.y, true);
+                expect(focusController.targetX).to.be.closeTo(1, 1e-6);
+
+                model.focusRadius = 2;
+                model.focusFalloff = 2;
+
+                model.focus(far.x, far.y, true);
+                expect(focusController.targetX).to.be.closeTo(0.25, 1e-6);
+
+                model.focusMode = FocusMode.DIRECTION;
+                model.focusRadius = 1;
+                model.focusFalloff = 1;
+            });
+
+            it('should be ready when created by from()', async () => {
+                const model = await Live2DModel.from(runtime.definition.file);
+
+                expect(model.internalModel).to.be.instanceOf(InternalModel);
+                expect(await model.ready).to.equal(model);
+
+                model.destroy();
+            });
+
+            it('should emit loading events in order', async () => {
+                const modelData = await Assets.load(runtime.definition.file);
+                const model = new Live2DModel(modelData);
+
+                const events = {
+                    modelLoaded: sinon.spy(),
+                    textureLoaded: sinon.spy(),
+                    ready: sinon.spy(),
+                    load: sinon.spy(),
+                };
+
+                Object.entries(events).forEach(([event, listener]) => model.on(event, listener));
+
+                // setting the anchor before ready should not throw
+                model.anchor.set(0.5, 0.5);
+
+                await model.ready;
+
+                expect(events.modelLoaded).to.be.calledOnceWith(model.internalModel);
+                expect(events.textureLoaded).to.be.calledOnceWith(model.textures);
+                expect(events.modelLoaded).to.be.calledBefore(events.textureLoaded);
+                expect(events.textureLoaded).to.be.calledBefore(events.ready);
+                expect(events.ready).to.be.calledBefore(events.load);
+                expect(model.pivot.x).to.equal(model.internalModel.width * 0.5);
+
+                model.destroy();
+            });
+
+            it('should resolve quietly when destroyed before ready', async () => {
+                const modelData = await Assets.load(runtime.definition.file);
+                const model = new Live2DModel(modelData);
+                const onReady = sinon.spy();
+
+                model.on('ready', onReady);
+                model.destroy();
+
+                expect(await model.ready).to.equal(model);
+                expect(model.internalModel).to.be.undefined;
+                expect(onReady).to.not.be.called;
+            });
+
+            it('should emit motionLoaded for every motion when preloading all', async () => {
+                // drop the model data that may have been loaded with another preload strategy
+                await Assets.unload(runtime.definition.file);
+
+                const motionPreload = MotionPreloadStrategy.ALL;
+                const modelData = await Assets.load({ src: runtime.definition.file, data: { motionPreload } });
+                const model = new Live2DModel(modelData, { motionPreload });
+                const onMotionLoaded = sinon.spy();
+
+                model.on('modelLoaded', internalModel => internalModel.motionManager.on('motionLoaded', onMotionLoaded));
+
+                await model.ready;
+
+                const motionManager = model.internalModel.motionManager;
+
+                for (const [group, definitions] of Object.entries(motionManager.definitions)) {
+                    for (let index = 0; index < definitions.length; index++) {
+                        expect(onMotionLoaded).to.be.calledWith(group, index, motionManager.motionGroups[group][index]);
+                    }
+                }
+
+                model.destroy();
+                await Assets.unload(runtime.definition.file);
+            });
+
+            it('should emit an error event when failed to create', async () => {
+                const modelData = await Assets.load(runtime.definition.file);
+                const error = new Error('test');
+
+                sinon.stub(RuntimeManager.findRuntime(modelData.settings), 'createCoreModel').throws(error);
+
+                try {
+                    const model = new Live2DModel(modelData);
+                    const onError = sinon.spy();
+
+                    model.on('error', onError);
+
+                    await expect(model.ready).to.be.rejectedWith(error);
+                    expect(onError).to.be.calledOnceWith(error);
+
+                    model.destroy();
+                } finally {
+                    RuntimeManager.findRuntime(modelData.settings).createCoreModel.restore();
+                }
+            });
+
+            it('should read the alpha of a texture pixel', () => {
+                const canvas = document.createElement('canvas');
+
+                canvas.width = canvas.height = 2;
+
+                const context = canvas.getContext('2d');
+
+                // only the top-right pixel is opaque
+                context.fillRect(1, 0, 1, 1);
+
+                const model = runtime.model1;
+                const texture = model.textures[0];
+
+                model.textures[0] = Texture.from(canvas);
+
+                try {
+                    expect(model.readTextureAlpha(0, 0.75, 0.25)).to.equal(1);
+                    expect(model.readTextureAlpha(0, 0.25, 0.25)).to.equal(0);
+                    expect(model.readTextureAlpha(0, 0.75, 0.75)).to.equal(0);
+                } finally {
+                    model.textures[0].destroy(true);
+                    model.textures[0] = texture;
+                }
+            });
         });
     });
 
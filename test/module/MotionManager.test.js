@@ -6,6 +6,7 @@ import { Cubism4ModelSettings } from '@/cubism4/Cubism4ModelSettings';
 import { Cubism4MotionManager } from '@/cubism4/Cubism4MotionManager';
 import { SoundManager } from '@/cubism-common/SoundManager';
 import { url } from '@pixi/utils';
+import { Assets } from '@pixi/assets';
 import '@/factory';
 import { fromPairs } from 'lodash-es';
 import sinon from 'sinon';
@@ -15,7 +16,7 @@ import { TEST_MODEL, TEST_MODEL4 } from '../env';
 describe('MotionManager', function() {
     let clock;
 
-    const originalLogLevel = config.logLevel;
+    let originalLogLevel;
 
     function createManager2(options = { motionPreload: MotionPreloadStrategy.NONE }) {
         return new Cubism2MotionManager(new Cubism2ModelSettings({
@@ -35,11 +36,13 @@ describe('MotionManager', function() {
     }
 
     before(() => {
+        originalLogLevel = config.logLevel;
         config.sound = false;
         clock = sinon.useFakeTimers({ shouldAdvanceTime: true });
     });
 
     after(function() {
+        config.logLevel = originalLogLevel;
         config.sound = true;
         clock.restore();
     });
@@ -113,6 +116,81 @@ describe('MotionManager', function() {
         expect(nonexistentMotion).to.be.undefined;
     });
 
+    it('should load motions on demand', async function() {
+        const manager = createManager2();
+        const loadedListener = sinon.spy();
+        const errorListener = sinon.spy();
+
+        manager.on('motionLoaded', loadedListener);
+        manager.on('motionLoadError', errorListener);
+
+        expect(manager.motionGroups.tap_body[0]).to.be.undefined;
+
+        // concurrent calls should share the same loading task
+        const [motion1, motion2] = await Promise.all([
+            manager.loadMotion('tap_body', 0),
+            manager.loadMotion('tap_body', 0),
+        ]);
+
+        expect(motion1).to.equal(motion2);
+        expect(manager.motionGroups.tap_body[0]).to.equal(motion1);
+        expect(loadedListener).to.be.calledOnceWith('tap_body', 0, motion1);
+
+        const logLevel = config.logLevel;
+        config.logLevel = config.LOG_LEVEL_NONE;
+
+        manager.definitions.tap_body[1] = { file: 'nonexistent.mtn' };
+
+        try {
+            expect(await manager.loadMotion('tap_body', 1)).to.be.undefined;
+            expect(manager.motionGroups.tap_body[1]).to.be.null;
+            expect(errorListener).to.be.calledOnceWith('tap_body', 1);
+        } finally {
+            config.logLevel = logLevel;
+        }
+    });
+
+    it('should unload the motions loaded on demand when destroyed', async function() {
+        const manager1 = createManager2();
+        const manager2 = createManager2();
+        const motionURL = manager1.settings.resolveURL(manager1.definitions.tap_body[0].file);
+        const onDemandURL = manager1.settings.resolveURL('on-demand.mtn');
+
+        const load = Assets.load;
+
+        // load the on-demand motion from an existing file, so it can be told apart from other tests
+        const loadStub = sinon.stub(Assets, 'load').callsFake(url => load.call(Assets, url === onDemandURL ? motionURL : url));
+        const unloadStub = sinon.stub(Assets, 'unload').resolves();
+
+        try {
+            for (const manager of [manager1, manager2]) {
+                manager.definitions.tap_body[0] = { file: 'on-demand.mtn' };
+
+                expect(await manager.loadMotion('tap_body', 0)).to.be.instanceOf(Live2DMotion);
+            }
+
+            manager1.destroy();
+            expect(unloadStub, 'should not unload the motion used by another manager').to.not.be.called;
+
+            manager2.destroy();
+            expect(unloadStub).to.be.calledOnceWith(onDemandURL);
+        } finally {
+            loadStub.restore();
+            unloadStub.restore();
+        }
+    });
+
+    it('should preload the motions that have not been loaded', function() {
+        const manager = createManager2();
+        const loadMotionStub = sinon.stub(manager, 'loadMotion').resolves(undefined);
+
+        manager.motionGroups.idle[0] = null;
+        manager.preloadMotions(MotionPreloadStrategy.IDLE);
+
+        expect(loadMotionStub).to.have.callCount(manager.definitions.idle.length - 1);
+        expect(loadMotionStub).to.not.be.calledWith('idle', 0);
+    });
+
     it('should start idle motion when no motion is playing', function(done) {
         const manager = createManager2();
 
@@ -429,6 +507,39 @@ describe('MotionManager', function() {
         expect(handler).to.be.called;
     });
 
+    it('should emit typed motion events', async function() {
+        const manager4 = createManager4();
+        const handler4 = sinon.spy();
+
+        // the custom data that the SDK passes to the event callback
+        const customData = {};
+
+        manager4.queueManager._eventCustomData = customData;
+        manager4.on('motionEvent', handler4);
+
+        await manager4.startMotion('Idle', 0);
+
+        updateManager(manager4);
+
+        expect(handler4).to.be.calledWith('test', 'Idle', 0, sinon.match.number, customData);
+
+        const manager2 = createManager2();
+        const handler2 = sinon.spy();
+
+        manager2.definitions.idle[0].events = [{ time: 0, value: 'start' }, { time: 0.5, value: 'middle' }];
+        manager2.on('motionEvent', handler2);
+
+        await manager2.startMotion('idle', 0);
+
+        updateManager(manager2);
+        expect(handler2).to.be.calledOnceWith('start', 'idle', 0, sinon.match.number, undefined);
+
+        clock.tick(600);
+        updateManager(manager2);
+        expect(handler2).to.be.calledTwice;
+        expect(handler2.secondCall).to.be.calledWith('middle', 'idle', 0, sinon.match(time => time >= 0.5));
+    });
+
     describe('Fading durations', function() {
         const originalFadingDuration = config.motionFadingDuration;
         const originalIdleFadingDuration = config.idleMotionFadingDuration;
@@ -2,6 +2,7 @@ import { RUNTIMES, TEST_MODEL } from '../env';
 import { createApp, createModel } from '../utils';
 import { Application } from '@pixi/app';
 import { merge } from 'lodash-es';
+import { FollowMouseMode } from '@/InteractionMixin';
 
 describe('Interactions', function() {
     let app;
@@ -53,6 +54,205 @@ describe('Interactions', function() {
         });
     });
 
+    describe('should handle hovering', function() {
+        before(function() {
+            app.render();
+        });
+
+        runtimes.each((runtime, name) => {
+            it(name, function() {
+                const model = runtime.model;
+                const enter = sinon.spy();
+                const leave = sinon.spy();
+                const move = sinon.spy();
+
+                model.on('hitAreaEnter', enter);
+                model.on('hitAreaLeave', leave);
+                model.on('hitAreaMove', move);
+
+                model.hoverEvents = true;
+                model.hoverCursor = 'pointer';
+                model.cursor = 'default';
+
+                const { hitArea, x, y } = runtime.definition.hitTests[0];
+
+                // mimic a FederatedPointerEvent
+                model.emit('pointermove', { globalX: x, globalY: y });
+                expect(enter).to.be.calledOnceWith(hitArea);
+                expect(move).to.be.calledOnceWith(hitArea, x, y);
+                expect(model.cursor).to.equal('pointer');
+
+                model.emit('pointermove', { globalX: x, globalY: y });
+                expect(enter).to.be.calledOnce;
+                expect(move).to.be.calledTwice;
+
+                model.emit('pointerleave', {});
+                expect(leave).to.be.calledOnceWith(hitArea);
+                expect(model.cursor).to.equal('default');
+                expect(model.hoveredHitAreas).to.be.empty;
+
+                model.hoverEvents = false;
+                model.emit('pointermove', { globalX: x, globalY: y });
+                expect(enter).to.be.calledOnce;
+
+                model.off('hitAreaEnter', enter);
+                model.off('hitAreaLeave', leave);
+                model.off('hitAreaMove', move);
+            });
+        });
+    });
+
+    describe('should recognize gestures', function() {
+        let clock;
+
+        before(function() {
+            app.render();
+        });
+
+        beforeEach(function() {
+            clock = sinon.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'performance'] });
+        });
+
+        afterEach(function() {
+            clock.restore();
+        });
+
+        runtimes.each((runtime, name) => {
+            it(name, function() {
+                const model = runtime.model;
+                const recognizer = model.gestureRecognizer;
+                const listeners = { doubleTap: sinon.spy(), longPress: sinon.spy(), swipe: sinon.spy(), pet: sinon.spy() };
+
+                Object.entries(listeners).forEach(([event, listener]) => model.on(event, listener));
+
+                const { hitArea, x, y } = runtime.definition.hitTests[0];
+
+                recognizer.onPointerDown(x, y);
+                recognizer.onPointerUp(x, y);
+                clock.tick(100);
+                recognizer.onPointerDown(x, y);
+                recognizer.onPointerUp(x, y);
+                expect(listeners.doubleTap).to.be.calledOnceWith(hitArea, { x, y });
+
+                clock.tick(1000);
+                recognizer.onPointerDown(x, y);
+                clock.tick(recognizer.options.longPressDuration);
+                recognizer.onPointerUp(x, y);
+                expect(listeners.longPress).to.be.calledOnceWith(hitArea);
+
+                recognizer.onPointerDown(x, y);
+                clock.tick(100);
+                recognizer.onPointerMove(x + 100, y);
+                recognizer.onPointerUp(x + 100, y);
+                expect(listeners.swipe).to.be.calledOnce;
+                expect(listeners.swipe.firstCall.args[1]).to.include({ direction: 'right', dx: 100, dy: 0 });
+
+                recognizer.onPointerDown(x, y);
+
+                for (let i = 0; i < 6; i++) {
+                    clock.tick(100);
+                    recognizer.onPointerMove(x + (i % 2 ? 0 : 30), y);
+                }
+
+                recognizer.onPointerUp(x, y);
+                expect(listeners.pet).to.be.called;
+                expect(listeners.pet.firstCall.args[1].strokes).to.equal(recognizer.options.petStrokes);
+                expect(listeners.swipe).to.be.calledOnce;
+
+                // a diagonal stroke should be counted only once
+                listeners.pet.resetHistory();
+                recognizer.onPointerDown(x, y);
+
+                // the first turn finishes a half stroke that's too short
+                for (let i = 0; i < recognizer.options.petStrokes + 2; i++) {
+                    expect(listeners.pet).to.not.be.called;
+
+                    clock.tick(100);
+                    recognizer.onPointerMove(x + (i % 2 ? -15 : 15), y + (i % 2 ? -15 : 15));
+                }
+
+                recognizer.onPointerUp(x, y);
+                expect(listeners.pet).to.be.calledOnce;
+
+                Object.entries(listeners).forEach(([event, listener]) => model.off(event, listener));
+            });
+        });
+    });
+
+    describe('should drive parameters by dragging hit areas', function() {
+        before(function() {
+            app.render();
+        });
+
+        runtimes.each((runtime, name) => {
+            it(name, function() {
+                const model = runtime.model;
+                const controller = model.dragController;
+                const { hitArea, x, y } = runtime.definition.hitTests[0];
+                const { id } = model.internalModel.getParameters().find(param => param.max > param.min);
+
+                controller.mappings = { [hitArea[0]]: [{ id, axis: 'x', scale: 0.01 }] };
+
+                controller.onPointerDown(x, y);
+                expect(controller.draggingHitArea).to.equal(hitArea[0]);
+
+                controller.onPointerMove(x + 50, y);
+                expect(controller.offsets.get(id).value).to.be.above(0);
+
+                controller.release();
+
+                let elapsed = 0;
+
+                while (controller.offsets.size && elapsed < 5000) {
+                    elapsed += 16;
+                    model.internalModel.update(16, elapsed);
+                }
+
+                expect(controller.offsets.size, 'should spring back').to.equal(0);
+
+                controller.reset();
+                controller.mappings = {};
+            });
+        });
+    });
+
+    it('should follow the mouse in different modes', async function() {
+        const model = await createModel(TEST_MODEL);
+
+        app.stage.addChild(model);
+        app.render();
+
+        const focusSpy = sinon.spy(model, 'focus');
+
+        model.followMouse = true;
+
+        model.followMouseMode = FollowMouseMode.CANVAS;
+        model.emit('pointermove', { globalX: 10, globalY: 10 });
+        expect(focusSpy).to.not.be.called;
+        model.emit('globalpointermove', { globalX: 10, globalY: 10 });
+        expect(focusSpy).to.be.calledOnce;
+
+        model.followMouseMode = FollowMouseMode.DOCUMENT;
+        model.emit('globalpointermove', { globalX: 10, globalY: 10 });
+        expect(focusSpy).to.be.calledOnce;
+        document.dispatchEvent(new PointerEvent('pointermove', { clientX: 10, clientY: 10 }));
+        expect(focusSpy).to.be.calledTwice;
+
+        model.followMouse = false;
+        document.dispatchEvent(new PointerEvent('pointermove', { clientX: 10, clientY: 10 }));
+        expect(focusSpy).to.be.calledTwice;
+
+        model.focusIdleTimeout = 100;
+        model.focus(0, 0);
+        expect(model.internalModel.focusController.targetX).to.not.equal(0);
+
+        model.update(200);
+        expect(model.internalModel.focusController.targetX).to.equal(0);
+        expect(model.internalModel.focusController.targetY).to.equal(0);
+
+        model.destroy();
+    });
+
     it('should not unregister other models\' listeners when destroying a model', async function() {
         const model1 = await createModel(TEST_MODEL);
         const model2 = await createModel(TEST_MODEL);
@@ -1,5 +1,8 @@
-import { Live2DFactory } from '@/factory/Live2DFactory';
-import { ZipLoader } from '@/factory/ZipLoader';
+import { RuntimeManager } from '@/RuntimeManager';
+import { ZipLoader } from '@/loader/ZipLoader';
+import { FileLoader } from '@/loader/FileLoader';
+import { isAbortError } from '@/loader/abort';
+import { Assets } from '@pixi/assets';
 import '@/cubism2';
 import '@/cubism4';
 import { RUNTIMES } from '../env';
@@ -32,7 +35,7 @@ describe('Loaders', function() {
 
             const settingsJSON = Object.assign({}, runtime.definition.json, { url: settingsFilePath });
 
-            const settings = Live2DFactory.findRuntime(settingsJSON).createModelSettings(settingsJSON);
+            const settings = RuntimeManager.findRuntime(settingsJSON).createModelSettings(settingsJSON);
 
             const settingsFile = createFile(new Blob([JSON.stringify(settingsJSON)]), settingsFilePath);
 
@@ -51,7 +54,199 @@ describe('Loaders', function() {
 
             runtime.files = files;
             runtime.settingsFile = settingsFile;
-            runtime.newSettings = () => Live2DFactory.findRuntime(settingsJSON).createModelSettings(settingsJSON);
+            runtime.newSettings = () => RuntimeManager.findRuntime(settingsJSON).createModelSettings(settingsJSON);
+        });
+    });
+
+    describe('Progress', function() {
+        runtimes.each((runtime, runtimeName) => {
+            it(`should report progress of each file ${runtimeName}`, async function() {
+                const onProgress = sinon.spy();
+
+                await Assets.load({ src: runtime.definition.file, data: { motionPreload: 'ALL', onProgress } });
+
+                const reports = onProgress.args.map(args => args[0]);
+                const lastReport = reports[reports.length - 1];
+
+                expect(reports.map(report => report.loaded)).to.eql(reports.map((_, i) => i + 1));
+                expect(lastReport.loaded).to.equal(lastReport.total);
+                expect(lastReport.loadedBytes).to.be.greaterThan(0);
+                expect(reports.map(report => report.category)).to.include.members(['moc', 'texture', 'motion']);
+
+                await Assets.unload(runtime.definition.file);
+            });
+        });
+    });
+
+    describe('Fault tolerance', function() {
+        runtimes.each((runtime, runtimeName) => {
+            it(`should record failed optional files and still create the model ${runtimeName}`, async function() {
+                const load = Assets.loader.load;
+
+                sinon.stub(Assets.loader, 'load').callsFake(function(url) {
+                    if (typeof url === 'string' && /\.(mtn|motion3\.json)$/.test(url)) {
+                        return Promise.reject(new Error('Failed to load'));
+                    }
+
+                    return load.apply(this, arguments);
+                });
+
+                let modelData;
+
+                try {
+                    modelData = await Assets.load({ src: runtime.definition.file, data: { motionPreload: 'ALL' } });
+                } finally {
+                    Assets.loader.load.restore();
+                }
+
+                expect(modelData.report.failures).to.not.be.empty;
+                expect(modelData.report.failures.every(failure => failure.category === 'motion')).to.be.true;
+                expect(Object.values(modelData.motions).flat()).to.include(null);
+
+                const model = await Live2DModel.from(modelData);
+
+                expect(model.internalModel).to.be.ok;
+
+                model.destroy();
+                await Assets.unload(runtime.definition.file);
+            });
+
+            it(`should reject when an essential file fails to load ${runtimeName}`, async function() {
+                const load = Assets.loader.load;
+
+                sinon.stub(Assets.loader, 'load').callsFake(function(url) {
+                    if (typeof url === 'string' && /\.moc3?$/.test(url)) {
+                        return Promise.reject(new Error('Failed to load'));
+                    }
+
+                    return load.apply(this, arguments);
+                });
+
+                try {
+                    await expect(Assets.load(runtime.definition.file)).to.be.rejected;
+                } finally {
+                    Assets.loader.load.restore();
+                }
+            });
+
+            it(`should treat an error response as a failure ${runtimeName}`, async function() {
+                const fetch = window.fetch;
+
+                sinon.stub(window, 'fetch').callsFake(function(url) {
+                    if (typeof url === 'string' && /\.moc3?$/.test(url)) {
+                        return Promise.resolve(new Response('Not Found', { status: 404 }));
+                    }
+
+                    return fetch.apply(this, arguments);
+                });
+
+                try {
+                    await expect(Assets.load(runtime.definition.file)).to.be.rejected;
+                } finally {
+                    window.fetch.restore();
+                }
+            });
+        });
+    });
+
+    describe('Abort', function() {
+        runtimes.each((runtime, runtimeName) => {
+            it(`should reject with an abort error when aborted ${runtimeName}`, async function() {
+                const controller = new AbortController();
+
+                // abort as soon as the first file has been loaded
+                const onProgress = sinon.spy(() => controller.abort());
+
+                const error = await Live2DModel.from(runtime.definition.file, { signal: controller.signal, onProgress })
+                    .then(() => undefined, e => e);
+
+                expect(onProgress).to.be.calledOnce;
+                expect(isAbortError(error, controller.signal)).to.be.true;
+
+                // the model should be loaded again from scratch
+                const model = await Live2DModel.from(runtime.definition.file);
+
+                expect(model.textures.every(texture => texture.baseTexture.valid)).to.be.true;
+
+                model.destroy();
+                await Assets.unload(runtime.definition.file);
+            });
+
+            it(`should not reject the other loadings of the same URL when aborted ${runtimeName}`, async function() {
+                const controller = new AbortController();
+                const onProgress1 = sinon.spy(() => controller.abort());
+                const onProgress2 = sinon.spy();
+
+                const loading1 = Live2DModel.from(runtime.definition.file, { signal: controller.signal, onProgress: onProgress1 });
+                const loading2 = Live2DModel.from(runtime.definition.file, { onProgress: onProgress2 });
+
+                const error = await loading1.then(() => undefined, e => e);
+
+                expect(isAbortError(error, controller.signal)).to.be.true;
+
+                const model = await loading2;
+
+                expect(onProgress1).to.be.calledOnce;
+                expect(onProgress2).to.be.called;
+
+                const { loaded, failed, total } = onProgress2.lastCall.args[0];
+
+                expect(loaded + failed).to.equal(total);
+                expect(model.textures.every(texture => texture.baseTexture.valid)).to.be.true;
+
+                model.destroy();
+                await Assets.unload(runtime.definition.file);
+            });
+        });
+    });
+
+    describe('Unload', function() {
+        runtimes.each((runtime, runtimeName) => {
+            it(`should free the resources after the last model is destroyed ${runtimeName}`, async function() {
+                const model1 = await Live2DModel.from(runtime.definition.file);
+                const model2 = await Live2DModel.from(runtime.definition.file);
+
+                const modelData = model1.modelData;
+                const baseTexture = modelData.textures[0].baseTexture;
+                const textureURL = baseTexture.resource.url;
+
+                expect(model2.modelData).to.equal(modelData);
+                expect(Assets.loader.promiseCache).to.have.property(textureURL);
+
+                await Assets.unload(runtime.definition.file);
+
+                expect(baseTexture.destroyed).to.be.false;
+                expect(Assets.loader.promiseCache).to.not.have.property(textureURL);
+
+                model1.destroy();
+
+                expect(baseTexture.destroyed).to.be.false;
+                expect(model2.textures[0].baseTexture.valid).to.be.true;
+
+                model2.destroy();
+
+                expect(baseTexture.destroyed).to.be.true;
+                expect(modelData.textures).to.be.undefined;
+                expect(Assets.loader.promiseCache).to.not.have.property(textureURL);
+            });
+
+            it(`should not destroy the textures used by a model loaded after unloading ${runtimeName}`, async function() {
+                const model1 = await Live2DModel.from(runtime.definition.file);
+
+                await Assets.unload(runtime.definition.file);
+
+                const model2 = await Live2DModel.from(runtime.definition.file);
+
+                expect(model2.modelData).to.not.equal(model1.modelData);
+                expect(model2.textures[0].baseTexture).to.not.equal(model1.textures[0].baseTexture);
+
+                model1.destroy();
+
+                expect(model2.textures.every(texture => texture.baseTexture.valid)).to.be.true;
+
+                model2.destroy();
+                await Assets.unload(runtime.definition.file);
+            });
         });
     });
 
@@ -62,6 +257,7 @@ describe('Loaders', function() {
                     const model = await Live2DModel.from(runtime.files);
 
                     expect(model).to.be.instanceOf(Live2DModel);
+                    expect(model.modelData.objectURLs).to.have.lengthOf(runtime.newSettings().textures.length);
 
                     let revokedURLs = 0;
 
@@ -73,7 +269,7 @@ describe('Loaders', function() {
                     model.destroy();
 
                     try {
-                        expect(revokedURLs).to.equal(runtime.files.length);
+                        expect(revokedURLs).to.equal(runtime.newSettings().textures.length);
                     } finally {
                         URL.revokeObjectURL.restore();
                     }
@@ -82,25 +278,73 @@ describe('Loaders', function() {
                 it('should load from files with predefined ModelSettings', async function() {
                     const settings = runtime.newSettings();
 
-                    settings._objectURL = URL.createObjectURL(runtime.settingsFile);
+                    const files = runtime.files.filter(file => file !== runtime.settingsFile);
 
-                    const files = runtime.files.slice();
-                    files.settings = settings;
+                    const modelData = await FileLoader.loadModelData(files, settings);
 
-                    try {
-                        const model = await Live2DModel.from(files);
+                    expect(modelData.moc).to.be.instanceOf(ArrayBuffer);
+                    expect(modelData.textures).to.have.lengthOf(settings.textures.length);
+                });
 
-                        expect(model).to.be.instanceOf(Live2DModel);
-                    } finally {
-                        URL.revokeObjectURL(settings._objectURL);
-                        delete settings._objectURL;
-                    }
+                it('should reject the files without settings', async function() {
+                    const files = runtime.files.filter(file => file !== runtime.settingsFile);
+
+                    await expect(FileLoader.loadModelData(files)).to.be.rejectedWith('Settings file not found');
+                });
+
+                it('should report progress and abort', async function() {
+                    const onProgress = sinon.spy();
+
+                    await FileLoader.loadModelData(runtime.files, undefined, undefined, { onProgress });
+                    const lastReport = onProgress.lastCall.args[0];
+
+                    expect(lastReport.loaded).to.equal(lastReport.total);
+                    expect(lastReport.loadedBytes).to.be.greaterThan(0);
+
+                    const controller = new AbortController();
+
+                    const error = await Live2DModel.from(runtime.files, {
+                        signal: controller.signal,
+                        onProgress: () => controller.abort(),
+                    }).then(() => undefined, e => e);
+
+                    expect(isAbortError(error, controller.signal)).to.be.true;
+                });
+
+                it('should locate the dropped files by their entries', async function() {
+                    const toEntry = (name, children) => ({
+                        isFile: !children,
+                        isDirectory: !!children,
+                        fullPath: name,
+                        file: callback => callback(runtime.files.find(file => '/' + file.webkitRelativePath === name)),
+                        createReader() {
+                            let read = false;
+
+                            return {
+                                readEntries(callback) {
+                                    callback(read ? [] : children);
+                                    read = true;
+                                },
+                            };
+                        },
+                    });
+
+                    // the files are all placed in the root folder, whose entry contains the files' entries
+                    const root = toEntry('/foo', runtime.files.map(file => toEntry('/' + file.webkitRelativePath)));
+
+                    const files = await FileLoader.getDroppedFiles({ items: [{ webkitGetAsEntry: () => root }] });
+
+                    expect(files).to.have.lengthOf(runtime.files.length);
+                    expect(files.map(file => FileLoader.getFilePath(file)))
+                        .to.have.members(runtime.files.map(file => file.webkitRelativePath));
                 });
             });
         });
     });
 
     describe('ZipLoader', function() {
+        const unimplementedZipReader = ZipLoader.zipReader;
+
         before(function() {
             ZipLoader.zipReader = (data, url) => JSZip.loadAsync(data);
             ZipLoader.readText = (jsZip, path) => jsZip.file(path).async('text');
@@ -125,6 +369,37 @@ describe('Loaders', function() {
             };
         });
 
+        it('should tell which method is not implemented', async function() {
+            const zipReader = ZipLoader.zipReader;
+
+            ZipLoader.zipReader = unimplementedZipReader;
+
+            try {
+                await expect(ZipLoader.loadModelData(new Blob(), 'foo.zip', Assets.loader))
+                    .to.be.rejectedWith('ZipLoader.zipReader() is not implemented');
+            } finally {
+                ZipLoader.zipReader = zipReader;
+            }
+        });
+
+        it('should reject the zip URL with an error response', async function() {
+            const fetch = window.fetch;
+
+            sinon.stub(window, 'fetch').callsFake(function(url) {
+                if (typeof url === 'string' && url.endsWith('not-found.zip')) {
+                    return Promise.resolve(new Response('Not Found', { status: 404 }));
+                }
+
+                return fetch.apply(this, arguments);
+            });
+
+            try {
+                await expect(Assets.load('not-found.zip')).to.be.rejected;
+            } finally {
+                window.fetch.restore();
+            }
+        });
+
         runtimes.each((runtime, runtimeName) => {
             describe(runtimeName, async function() {
                 let zipFile;
@@ -147,33 +422,55 @@ describe('Loaders', function() {
                 });
 
                 it('should load from zip file', async function() {
-                    const model = await Live2DModel.from([zipFile]);
+                    const modelData = await Assets.load({ src: zipFile.name, data: zipFile });
+                    const model = new Live2DModel(modelData);
 
                     expect(model).to.be.instanceOf(Live2DModel);
 
                     model.destroy();
+                    await Assets.unload(zipFile.name);
                 });
 
-                it('should load from zip file with predefined ModelSettings', async function() {
-                    const files = [zipFileWithoutSettings];
+                it('should reject the zip file without settings', async function() {
+                    await expect(Assets.load({ src: 'no-settings-' + zipFileWithoutSettings.name, data: zipFileWithoutSettings }))
+                        .to.be.rejectedWith('Settings file not found');
+                });
+
+                it('should load from zip URL', async function() {
+                    const zipURL = ZipLoader.ZIP_PROTOCOL + URL.createObjectURL(zipFile);
+
+                    const modelData = await Assets.load(zipURL);
 
-                    files.settings = runtime.newSettings();
+                    expect(modelData.moc).to.be.instanceOf(ArrayBuffer);
+                    expect(modelData.textures).to.have.lengthOf(runtime.newSettings().textures.length);
 
-                    const model = await Live2DModel.from(files);
+                    const model = new Live2DModel(modelData);
 
                     expect(model).to.be.instanceOf(Live2DModel);
 
                     model.destroy();
+                    await Assets.unload(zipURL);
                 });
 
-                it('should load from zip URL', async function() {
+                it('should report progress and abort when loading from zip URL', async function() {
                     const zipURL = ZipLoader.ZIP_PROTOCOL + URL.createObjectURL(zipFile);
+                    const controller = new AbortController();
+
+                    // abort as soon as the first file in the zip has been loaded
+                    const onProgress = sinon.spy(() => controller.abort());
+
+                    const error = await Live2DModel.from(zipURL, { signal: controller.signal, onProgress })
+                        .then(() => undefined, e => e);
+
+                    expect(onProgress).to.be.calledOnce;
+                    expect(isAbortError(error, controller.signal)).to.be.true;
 
                     const model = await Live2DModel.from(zipURL);
 
-                    expect(model).to.be.instanceOf(Live2DModel);
+                    expect(model.textures.every(texture => texture.baseTexture.valid)).to.be.true;
 
                     model.destroy();
+                    await Assets.unload(zipURL);
                 });
             });
         });